@@ -0,0 +1,34 @@
+/**
+ * @file src/@types/conflict.ts
+ * @description Defines the structure of sync conflicts shown to the user.
+ */
+
+/**
+ * How the user settles a conflict.
+ * - local: keep the local values
+ * - remote: take the remote values (or the remote deletion)
+ * - merged: use values the user entered
+ */
+export type ConflictResolution = 'local' | 'remote' | 'merged';
+
+/**
+ * A remote change that couldn't be merged with local edits, kept until the user resolves it.
+ */
+export interface SyncConflict {
+  /** Conflict id. */
+  id: number;
+  /** Local table of the conflicted row. */
+  table: string;
+  /** Key of the conflicted row. */
+  rowId: string;
+  /** Columns changed on both sides. */
+  columns: string[];
+  /** Local values of the columns. */
+  local: Record<string, any>;
+  /** Remote values of the columns, null if the row was deleted remotely. */
+  remote: Record<string, any> | null;
+  /** Last synced values of the columns both sides started from, where known. */
+  base: Record<string, any>;
+  /** Timestamp (ms) of when the conflict was detected. */
+  detectedAt: number;
+}
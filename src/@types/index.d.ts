@@ -1,24 +1,57 @@
 /**
  * Global type definitions
  */
-import { Todo } from './todo';
+import { Todo, TodoPatch, TodoDetails, TodoFilter, TodoPlacement } from './todo';
+import { TodoList, ListPatch } from './list';
+import { Tag, TagSummary } from './tag';
+import { DeadLetter } from './outbox';
+import { ConflictResolution, SyncConflict } from './conflict';
 
 declare global {
   interface Window {
     electronAPI: {
       // Todo operations
-      getTodos: () => Promise<Todo[]>;
-      addTodo: (title: string) => Promise<Todo | null>;
+      getTodos: (filter?: TodoFilter) => Promise<Todo[]>;
+      refreshTodos: (filter?: TodoFilter) => Promise<Todo[]>;
+      addTodo: (title: string, details?: TodoDetails) => Promise<Todo | null>;
       toggleTodo: (id: string, completed: boolean) => Promise<boolean>;
+      updateTodo: (id: string, patch: TodoPatch) => Promise<Todo | null>;
+      moveTodo: (id: string, placement: TodoPlacement) => Promise<Todo | null>;
       deleteTodo: (id: string) => Promise<boolean>;
+      getTrash: () => Promise<Todo[]>;
+      restoreTodo: (id: string) => Promise<boolean>;
+      undo: () => Promise<boolean>;
+      redo: () => Promise<boolean>;
+      
+      // List operations
+      getLists: () => Promise<TodoList[]>;
+      addList: (name: string, details?: ListPatch) => Promise<TodoList | null>;
+      updateList: (id: string, patch: ListPatch) => Promise<TodoList | null>;
+      deleteList: (id: string) => Promise<boolean>;
+      
+      // Tag operations
+      getTags: () => Promise<TagSummary[]>;
+      assignTag: (todoId: string, name: string) => Promise<Tag | null>;
+      unassignTag: (todoId: string, tagId: string) => Promise<boolean>;
       
       // Sync operations
       getSyncStatus: () => Promise<ConnectionStatus>;
       forceSync: () => Promise<any>;
+      getDeadLetters: () => Promise<DeadLetter[]>;
+      retryDeadLetter: (id: number) => Promise<boolean>;
+      discardDeadLetter: (id: number) => Promise<boolean>;
+      
+      // Conflict inbox
+      getConflicts: () => Promise<SyncConflict[]>;
+      resolveConflict: (id: number, resolution: ConflictResolution, values?: Record<string, unknown>) => Promise<boolean>;
       
       // Event listeners
       onSyncStatusChange: (callback: (status: ConnectionStatus) => void) => () => void;
       onTodosUpdated: (callback: () => void) => () => void;
+      onListsUpdated: (callback: () => void) => () => void;
+      onTagsUpdated: (callback: () => void) => () => void;
+      onDeadLettersUpdated: (callback: () => void) => () => void;
+      onConflictsUpdated: (callback: () => void) => () => void;
       onAppError: (callback: (error: AppError) => void) => () => void;
     }
   }
@@ -0,0 +1,29 @@
+/**
+ * @file src/@types/list.ts
+ * @description Defines the structure for a list of todos.
+ */
+
+/**
+ * Fields of a list that can be changed through an update.
+ */
+export type ListPatch = Partial<Pick<TodoList, 'name' | 'color' | 'sort_order'>>;
+
+/**
+ * A list (project) todos can be filed under.
+ */
+export interface TodoList {
+  /** Unique identifier for the list. */
+  id: string;
+  /** The name shown for the list. */
+  name: string;
+  /** CSS hex color of the list (e.g. "#3b82f6"), null for the default. */
+  color: string | null;
+  /** Position of the list among the others, lowest first. */
+  sort_order: number;
+  /** ISO 8601 timestamp string indicating when the list was created. */
+  created_at: string;
+  /** ISO 8601 timestamp string of the latest change to any field. */
+  updated_at?: string;
+  /** Time (ms) of the last change of each field, used to merge concurrent edits. */
+  field_versions?: Record<string, number>;
+}
@@ -0,0 +1,30 @@
+/**
+ * @file src/@types/outbox.ts
+ * @description Defines the structure of outbox operations shown to the user.
+ */
+
+/**
+ * An outbox operation that was given up on, kept until the user retries or discards it.
+ */
+export interface DeadLetter {
+  /** Outbox id of the operation, keeps its place in the queue when retried. */
+  id: number;
+  /** The operation type. */
+  type: 'create' | 'update' | 'delete';
+  /** Local table of the row the operation applies to, e.g. todos or lists. */
+  table: string;
+  /** The row the operation applies to. */
+  rowId: string;
+  /** The row data for a create, the changed fields for an update. */
+  data?: any;
+  /** Number of failed attempts. */
+  attempts: number;
+  /** Message of the last error. */
+  error: string;
+  /** Code of the last error, when known. */
+  errorCode?: string;
+  /** Timestamp (ms) of when the operation was made. */
+  createdAt: number;
+  /** Timestamp (ms) of when the operation was dead-lettered. */
+  failedAt: number;
+}
@@ -0,0 +1,25 @@
+/**
+ * @file src/@types/tag.ts
+ * @description Defines the structure for tags and their assignment to todos.
+ */
+
+/**
+ * A free-form tag. Tags are never renamed; tags with the same name (ignoring case) made on
+ * different devices are shown as one.
+ */
+export interface Tag {
+  /** Unique identifier for the tag. */
+  id: string;
+  /** The name of the tag. */
+  name: string;
+}
+
+/**
+ * A tag name with the number of todos (not in the trash) that carry it.
+ */
+export interface TagSummary {
+  /** The name of the tag. */
+  name: string;
+  /** Number of todos tagged with it. */
+  todo_count: number;
+}
@@ -2,6 +2,56 @@
  * @file src/@types/todo.ts
  * @description Defines the structure for a Todo item.
  */
+import type { Tag } from './tag';
+
+/**
+ * Sync state of a todo, as shown to the user.
+ * - synced: no local changes waiting to be pushed
+ * - pending: local changes are queued (possibly retrying after an error)
+ * - failed: a change was given up on and waits in the dead letters
+ * - conflicted: a local change clashed with a remote one
+ */
+export type TodoSyncState = 'synced' | 'pending' | 'failed' | 'conflicted';
+
+/**
+ * Where a todo is in its workflow; a done todo is completed, any other one isn't.
+ */
+export type TodoStatus = 'backlog' | 'todo' | 'in_progress' | 'done';
+
+/**
+ * How urgent a todo is, from low to urgent.
+ */
+export type TodoPriority = 'low' | 'medium' | 'high' | 'urgent';
+
+/**
+ * Fields of a todo that can be changed through an update.
+ */
+export type TodoPatch = Partial<Pick<Todo, 'title' | 'completed' | 'status' | 'priority' | 'due_at' | 'remind_before' | 'list_id' | 'parent_id'>>;
+
+/**
+ * Fields of a new todo that can be set along with its title.
+ */
+export type TodoDetails = Pick<TodoPatch, 'status' | 'priority' | 'due_at' | 'remind_before' | 'list_id' | 'parent_id'>;
+
+/**
+ * Where to move a todo.
+ */
+export interface TodoPlacement {
+  /** The todo to move it under, null for the top level; its current parent if left out. */
+  parent_id?: string | null;
+  /** The sibling to put it before, at the end if null or left out. */
+  before?: string | null;
+}
+
+/**
+ * Which todos to get; todos must match every field given.
+ */
+export interface TodoFilter {
+  /** The list of the todos, null for the inbox. */
+  list_id?: string | null;
+  /** A tag name the todos carry, ignoring case. */
+  tag?: string;
+}
 
 /**
  * Represents a single Todo item.
@@ -16,6 +66,36 @@ export interface Todo {
    * Can be boolean (from app logic) or number (from SQLite where 0=false, 1=true).
    */
   completed: number | boolean;
+  /** Where the todo is in its workflow, kept in step with completed. */
+  status: TodoStatus;
+  /** How urgent the todo is, null for no priority. */
+  priority?: TodoPriority | null;
   /** ISO 8601 timestamp string indicating when the todo was created. */
   created_at: string;
+  /** ISO 8601 timestamp string of when the todo was moved to the trash, null if it wasn't. */
+  deleted_at?: string | null;
+  /** ISO 8601 timestamp string of when the todo is due, null if it has no due date. */
+  due_at?: string | null;
+  /** Minutes before the due date to show a reminder, null for no reminder. */
+  remind_before?: number | null;
+  /** The list the todo belongs to, null for the inbox. */
+  list_id?: string | null;
+  /** The todo this one is a subtask of, null for a top-level todo. */
+  parent_id?: string | null;
+  /** Fractional index ordering the todo among its siblings, compared as a plain string. */
+  position?: string | null;
+  /** ISO 8601 timestamp string of the latest change to any field. */
+  updated_at?: string;
+  /** Time (ms) of the last change of each field, used to merge concurrent edits. */
+  field_versions?: Record<string, number>;
+  /** Tags of the todo, by name; set on todos read from the local database. */
+  tags?: Tag[];
+  /** Number of direct subtasks not in the trash; set on todos read from the local database. */
+  subtask_count?: number;
+  /** Number of those subtasks that are completed. */
+  subtask_done?: number;
+  /** Sync state, set on todos read from the local database. */
+  sync_state?: TodoSyncState;
+  /** Last error of a failed or retrying push, if any. */
+  sync_error?: string | null;
 } 
\ No newline at end of file
@@ -43,11 +43,28 @@ class ConfigService {
       // Paths
       USER_DATA_PATH: userDataPath,
       DB_PATH: app.isReady() ? path.join(userDataPath, 'todo.db') : '',
-      ELECTRIC_STORAGE_PATH: app.isReady() ? path.join(userDataPath, 'electric-sync.json') : '',
-      OFFLINE_STORAGE_PATH: app.isReady() ? path.join(userDataPath, 'pending-operations.json') : '',
+      ELECTRIC_STORAGE_PATH: app.isReady() ? path.join(userDataPath, 'electric-sync.json') : '', // Legacy, migrated into SQLite
+      OFFLINE_STORAGE_PATH: app.isReady() ? path.join(userDataPath, 'pending-operations.json') : '', // Legacy, migrated into SQLite
       
       // Sync configuration
-      SYNC_INTERVAL: process.env.SYNC_INTERVAL || '30000', // 30 seconds
+      SYNC_INTERVAL: process.env.SYNC_INTERVAL || '30000', // 30 seconds, fallback when live sync stalls
+      LIVE_SYNC: process.env.LIVE_SYNC || 'true',
+      ELECTRIC_LIVE_TIMEOUT: process.env.ELECTRIC_LIVE_TIMEOUT || '45000', // 45 seconds, above Electric's long-poll timeout
+      OUTBOX_MAX_ATTEMPTS: process.env.OUTBOX_MAX_ATTEMPTS || '8', // Failed pushes before an operation is dead-lettered
+      OUTBOX_CONFIRM_TIMEOUT: process.env.OUTBOX_CONFIRM_TIMEOUT || '120000', // 2 minutes to wait for the Electric echo of a push
+      
+      // Days a trashed todo is kept before it is purged for good, 0 keeps it forever
+      TRASH_RETENTION_DAYS: process.env.TRASH_RETENTION_DAYS || '30',
+      
+      // Todo mutations kept for undo
+      TODO_HISTORY_LIMIT: process.env.TODO_HISTORY_LIMIT || '100',
+      
+      // Minutes a snoozed reminder waits before it is shown again
+      REMINDER_SNOOZE_MINUTES: process.env.REMINDER_SNOOZE_MINUTES || '10',
+      
+      // Shape filters (optional Electric where clause and comma-separated column list)
+      TODOS_SHAPE_WHERE: process.env.TODOS_SHAPE_WHERE,
+      TODOS_SHAPE_COLUMNS: process.env.TODOS_SHAPE_COLUMNS,
       CONNECTION_CHECK_INTERVAL: process.env.CONNECTION_CHECK_INTERVAL || '10000', // 10 seconds
       MAX_CONSECUTIVE_FAILURES: process.env.MAX_CONSECUTIVE_FAILURES || '3',
     };
@@ -12,6 +12,17 @@ import { DatabaseError } from '../error/app.error';
 
 const logger = getLogger('SQLiteService');
 
+// Position of a todo that was never moved (see todo.position.ts): a 15-digit integer, decimal
+// digits being base-62 digits too, counting down from its creation time, so newer todos come
+// first as they did before positions existed (unreadable times last). Derived the same way on
+// every device, it is never pushed
+const CREATION_TIME_POSITION = `
+  'o' || printf('%015d', 999999999999999 - COALESCE(
+    CAST(strftime('%s', NEW.created_at) AS INTEGER) * 1000 + CAST(substr(strftime('%f', NEW.created_at), 4) AS INTEGER),
+    0
+  ))
+`;
+
 export class SQLiteService {
   private db: Database.Database | null = null;
   private dbPath: string = '';
@@ -70,14 +81,273 @@ export class SQLiteService {
           id TEXT PRIMARY KEY,
           title TEXT NOT NULL,
           completed INTEGER DEFAULT 0,
-          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+          created_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP,
+          deleted_at TEXT,
+          due_at TEXT,
+          remind_before INTEGER,
+          notified_at INTEGER,
+          snoozed_until INTEGER,
+          list_id TEXT,
+          parent_id TEXT,
+          position TEXT,
+          status TEXT NOT NULL DEFAULT 'todo',
+          priority TEXT,
+          updated_at TEXT,
+          field_versions TEXT NOT NULL DEFAULT '{}',
+          synced_values TEXT NOT NULL DEFAULT '{}'
         )
       `);
       
+      // Field versions for last-writer-wins merges, for todos tables created before they were tracked
+      this.addColumnIfMissing('todos', 'updated_at', 'TEXT');
+      this.addColumnIfMissing('todos', 'field_versions', "TEXT NOT NULL DEFAULT '{}'");
+      
+      // Last values received from Supabase, the base shown for conflicts
+      this.addColumnIfMissing('todos', 'synced_values', "TEXT NOT NULL DEFAULT '{}'");
+      
+      // Tombstone of a trashed todo, for todos tables created before the trash
+      this.addColumnIfMissing('todos', 'deleted_at', 'TEXT');
+      
+      // Due date and reminder, synced, and the local state of the reminder notification
+      this.addColumnIfMissing('todos', 'due_at', 'TEXT');
+      this.addColumnIfMissing('todos', 'remind_before', 'INTEGER');
+      this.addColumnIfMissing('todos', 'notified_at', 'INTEGER');
+      this.addColumnIfMissing('todos', 'snoozed_until', 'INTEGER');
+      
+      // List of the todo, null for the inbox; not a foreign key, rows of both tables arrive in any order
+      this.addColumnIfMissing('todos', 'list_id', 'TEXT');
+      
+      // Todo a todo is a subtask of, null at the top level; not a foreign key either
+      this.addColumnIfMissing('todos', 'parent_id', 'TEXT');
+      
+      // Order among siblings, set from the creation time for todos that don't have one yet
+      this.addColumnIfMissing('todos', 'position', 'TEXT');
+      this.db.exec(`
+        CREATE TRIGGER IF NOT EXISTS todos_default_position_insert
+        AFTER INSERT ON todos
+        WHEN NEW.position IS NULL
+        BEGIN
+          UPDATE todos SET position = ${CREATION_TIME_POSITION} WHERE id = NEW.id;
+        END
+      `);
+      this.db.exec(`
+        CREATE TRIGGER IF NOT EXISTS todos_default_position_update
+        AFTER UPDATE OF position ON todos
+        WHEN NEW.position IS NULL
+        BEGIN
+          UPDATE todos SET position = ${CREATION_TIME_POSITION} WHERE id = NEW.id;
+        END
+      `);
+      
+      // Todos from before positions get theirs through the update trigger
+      this.db.exec(`UPDATE todos SET position = NULL WHERE position IS NULL`);
+      
+      // Workflow status and priority; completed stays in step with status, done meaning completed
+      this.addColumnIfMissing('todos', 'status', "TEXT NOT NULL DEFAULT 'todo'");
+      this.addColumnIfMissing('todos', 'priority', 'TEXT');
+      
+      // The app writes both together; rows from Supabase written by clients that only know
+      // completed get their status from it
+      this.db.exec(`
+        CREATE TRIGGER IF NOT EXISTS todos_status_from_completed_insert
+        AFTER INSERT ON todos
+        WHEN (NEW.completed = 1) != (NEW.status = 'done')
+        BEGIN
+          UPDATE todos SET status = CASE WHEN NEW.completed = 1 THEN 'done' ELSE 'todo' END WHERE id = NEW.id;
+        END
+      `);
+      this.db.exec(`
+        CREATE TRIGGER IF NOT EXISTS todos_status_from_completed_update
+        AFTER UPDATE OF completed ON todos
+        WHEN (NEW.completed = 1) != (NEW.status = 'done') AND NEW.status IS OLD.status
+        BEGIN
+          UPDATE todos SET status = CASE WHEN NEW.completed = 1 THEN 'done' ELSE 'todo' END WHERE id = NEW.id;
+        END
+      `);
+      
+      // Completed todos from before statuses are done
+      this.db.exec(`UPDATE todos SET status = 'done' WHERE completed = 1 AND status != 'done'`);
+      
+      // A snooze belongs to the reminder it was set for, however the due date or offset change
+      this.db.exec(`
+        CREATE TRIGGER IF NOT EXISTS todos_reset_snooze
+        AFTER UPDATE OF due_at, remind_before ON todos
+        WHEN OLD.due_at IS NOT NEW.due_at OR OLD.remind_before IS NOT NEW.remind_before
+        BEGIN
+          UPDATE todos SET snoozed_until = NULL WHERE id = NEW.id;
+        END
+      `);
+      
       // Add any required indexes
       this.db.exec(`
         CREATE INDEX IF NOT EXISTS idx_todos_created_at ON todos(created_at)
       `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_todos_deleted_at ON todos(deleted_at)
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_todos_due_at ON todos(due_at)
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_todos_list_id ON todos(list_id)
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_todos_parent_id ON todos(parent_id)
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_todos_position ON todos(position)
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_todos_status ON todos(status)
+      `);
+      
+      // Create lists table if it doesn't exist
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS lists (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          color TEXT,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          created_at TEXT NOT NULL,
+          updated_at TEXT,
+          field_versions TEXT NOT NULL DEFAULT '{}',
+          synced_values TEXT NOT NULL DEFAULT '{}'
+        )
+      `);
+      
+      // Tags and their assignment to todos; rows of both never change, only come and go
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS tags (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        )
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_tags_name ON tags(name COLLATE NOCASE)
+      `);
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS todo_tags (
+          todo_id TEXT NOT NULL,
+          tag_id TEXT NOT NULL,
+          created_at TEXT NOT NULL,
+          PRIMARY KEY (todo_id, tag_id)
+        )
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_todo_tags_tag_id ON todo_tags(tag_id)
+      `);
+      
+      // Electric shape cursors, advanced in the same transaction as the rows they cover
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_cursors (
+          shape_name TEXT PRIMARY KEY,
+          sync_offset TEXT NOT NULL,
+          sync_handle TEXT NOT NULL DEFAULT '',
+          signature TEXT NOT NULL DEFAULT '',
+          updated_at TIMESTAMP DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+      
+      // Outbox of local operations not yet pushed to Supabase,
+      // written in the same transaction as the local change
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS outbox (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          type TEXT NOT NULL CHECK (type IN ('create', 'update', 'delete')),
+          table_name TEXT NOT NULL DEFAULT 'todos',
+          row_id TEXT NOT NULL,
+          data TEXT,
+          created_at INTEGER NOT NULL,
+          attempts INTEGER NOT NULL DEFAULT 0,
+          next_attempt_at INTEGER NOT NULL DEFAULT 0,
+          last_error TEXT,
+          mutation_id TEXT,
+          pushed_at INTEGER
+        )
+      `);
+      
+      // Retry state, for outbox tables created before it was tracked
+      this.addColumnIfMissing('outbox', 'attempts', 'INTEGER NOT NULL DEFAULT 0');
+      this.addColumnIfMissing('outbox', 'next_attempt_at', 'INTEGER NOT NULL DEFAULT 0');
+      this.addColumnIfMissing('outbox', 'last_error', 'TEXT');
+      
+      // Echo confirmation state, for outbox tables created before it was tracked
+      this.addColumnIfMissing('outbox', 'mutation_id', 'TEXT');
+      this.addColumnIfMissing('outbox', 'pushed_at', 'INTEGER');
+      
+      // Operations of any synced table, for outbox tables created when only todos were queued
+      this.renameColumnIfPresent('outbox', 'todo_id', 'row_id');
+      this.addColumnIfMissing('outbox', 'table_name', "TEXT NOT NULL DEFAULT 'todos'");
+      
+      this.db.exec(`
+        DROP INDEX IF EXISTS idx_outbox_todo_id
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_outbox_row ON outbox(table_name, row_id)
+      `);
+      
+      // Outbox operations given up on, kept until the user retries or discards them
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS outbox_dead_letters (
+          id INTEGER PRIMARY KEY,
+          type TEXT NOT NULL,
+          table_name TEXT NOT NULL DEFAULT 'todos',
+          row_id TEXT NOT NULL,
+          data TEXT,
+          created_at INTEGER NOT NULL,
+          attempts INTEGER NOT NULL,
+          error TEXT NOT NULL,
+          error_code TEXT,
+          failed_at INTEGER NOT NULL
+        )
+      `);
+      
+      this.renameColumnIfPresent('outbox_dead_letters', 'todo_id', 'row_id');
+      this.addColumnIfMissing('outbox_dead_letters', 'table_name', "TEXT NOT NULL DEFAULT 'todos'");
+      
+      this.db.exec(`
+        DROP INDEX IF EXISTS idx_outbox_dead_letters_todo_id
+      `);
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_outbox_dead_letters_row ON outbox_dead_letters(table_name, row_id)
+      `);
+      
+      // Remote changes that couldn't be merged with local edits, one open conflict per row
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS sync_conflicts (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          table_name TEXT NOT NULL,
+          row_id TEXT NOT NULL,
+          columns TEXT NOT NULL,
+          local TEXT NOT NULL,
+          remote TEXT,
+          base TEXT NOT NULL,
+          detected_at INTEGER NOT NULL,
+          UNIQUE (table_name, row_id)
+        )
+      `);
+      
+      // Undo and redo stacks of todo mutations, see TodoHistory
+      this.db.exec(`
+        CREATE TABLE IF NOT EXISTS todo_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          action TEXT NOT NULL,
+          todo_id TEXT NOT NULL,
+          before TEXT NOT NULL,
+          after TEXT NOT NULL,
+          undone INTEGER NOT NULL DEFAULT 0,
+          created_at INTEGER NOT NULL,
+          cascade_changes TEXT NOT NULL DEFAULT '[]'
+        )
+      `);
+      
+      // Changes an action made to other todos, for history tables created before subtasks
+      this.addColumnIfMissing('todo_history', 'cascade_changes', "TEXT NOT NULL DEFAULT '[]'");
+      
+      this.db.exec(`
+        CREATE INDEX IF NOT EXISTS idx_todo_history_todo_id ON todo_history(todo_id)
+      `);
       
       logger.info('Database schema setup completed');
     } catch (error) {
@@ -86,6 +356,44 @@ export class SQLiteService {
     }
   }
   
+  /**
+   * Add a column to an existing table unless it is already there
+   * CREATE TABLE IF NOT EXISTS leaves tables from earlier versions untouched,
+   * so columns added later are brought in this way
+   * @param table Table name
+   * @param column Column name
+   * @param definition Column type and constraints
+   */
+  private addColumnIfMissing(table: string, column: string, definition: string): void {
+    if (!this.db) {
+      throw new DatabaseError('Database not initialized');
+    }
+    
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (!columns.some(existing => existing.name === column)) {
+      logger.info(`Adding column ${table}.${column}`);
+      this.db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+    }
+  }
+  
+  /**
+   * Rename a column of an existing table if it still has its old name
+   * @param table Table name
+   * @param column Old column name
+   * @param newColumn New column name
+   */
+  private renameColumnIfPresent(table: string, column: string, newColumn: string): void {
+    if (!this.db) {
+      throw new DatabaseError('Database not initialized');
+    }
+    
+    const columns = this.db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+    if (columns.some(existing => existing.name === column)) {
+      logger.info(`Renaming column ${table}.${column} to ${newColumn}`);
+      this.db.exec(`ALTER TABLE ${table} RENAME COLUMN ${column} TO ${newColumn}`);
+    }
+  }
+  
   /**
    * Get the database instance
    * @throws DatabaseError if database is not initialized
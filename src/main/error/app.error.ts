@@ -56,10 +56,18 @@ export class SyncError extends AppError {
 
 /**
  * Sync conflict errors
+ * Raised for remote changes that can't be merged with unconfirmed local edits
  */
 export class SyncConflictError extends SyncError {
-  constructor(message: string, code: string = 'SYNC_CONFLICT') {
+  table?: string;
+  rowId?: string;
+  columns: string[];
+  
+  constructor(message: string, table?: string, rowId?: string, columns: string[] = [], code: string = 'SYNC_CONFLICT') {
     super(message, code);
+    this.table = table;
+    this.rowId = rowId;
+    this.columns = columns;
   }
 }
 
@@ -72,6 +80,25 @@ export class ElectricError extends SyncError {
   }
 }
 
+/**
+ * Electric asked the client to drop its shape and start over
+ * (must-refetch control message, 409 Conflict or an offset/handle it no longer recognises)
+ */
+export class ShapeRefetchError extends ElectricError {
+  constructor(message: string, code: string = 'SHAPE_MUST_REFETCH') {
+    super(message, code);
+  }
+}
+
+/**
+ * A shape log value that doesn't match its column type
+ */
+export class ShapeDecodeError extends ElectricError {
+  constructor(message: string, code: string = 'SHAPE_DECODE_ERROR') {
+    super(message, code);
+  }
+}
+
 /**
  * Supabase-specific errors
  */
@@ -81,6 +108,21 @@ export class SupabaseError extends SyncError {
   }
 }
 
+/**
+ * Supabase rejected a request
+ * Carries the HTTP status and Postgres error code, used to decide whether retrying can help
+ */
+export class SupabaseRequestError extends SupabaseError {
+  status: number;
+  pgCode?: string;
+  
+  constructor(message: string, status: number, pgCode?: string, code: string = 'SUPABASE_REQUEST_ERROR') {
+    super(message, code);
+    this.status = status;
+    this.pgCode = pgCode;
+  }
+}
+
 /**
  * Offline-specific errors
  */
@@ -90,6 +132,18 @@ export class OfflineError extends SyncError {
   }
 }
 
+/**
+ * Invalid input, e.g. a malformed todo patch
+ */
+export class ValidationError extends AppError {
+  field?: string;
+  
+  constructor(message: string, field?: string, code: string = 'VALIDATION_ERROR') {
+    super(message, code);
+    this.field = field;
+  }
+}
+
 /**
  * IPC-related errors
  */
@@ -8,9 +8,35 @@
  */
 export const TODO_CHANNELS = {
   GET_ALL: 'todos:getAll',
+  REFRESH: 'todos:refresh',
   ADD: 'todos:add',
   TOGGLE: 'todos:toggle',
-  DELETE: 'todos:delete'
+  UPDATE: 'todos:update',
+  MOVE: 'todos:move',
+  DELETE: 'todos:delete',
+  GET_TRASH: 'todos:getTrash',
+  RESTORE: 'todos:restore',
+  UNDO: 'todos:undo',
+  REDO: 'todos:redo'
+};
+
+/**
+ * List-related channels
+ */
+export const LIST_CHANNELS = {
+  GET_ALL: 'lists:getAll',
+  ADD: 'lists:add',
+  UPDATE: 'lists:update',
+  DELETE: 'lists:delete'
+};
+
+/**
+ * Tag-related channels
+ */
+export const TAG_CHANNELS = {
+  GET_ALL: 'tags:getAll',
+  ASSIGN: 'tags:assign',
+  UNASSIGN: 'tags:unassign'
 };
 
 /**
@@ -18,7 +44,18 @@ export const TODO_CHANNELS = {
  */
 export const SYNC_CHANNELS = {
   GET_STATUS: 'sync:status',
-  FORCE_SYNC: 'sync:force'
+  FORCE_SYNC: 'sync:force',
+  GET_DEAD_LETTERS: 'sync:deadLetters',
+  RETRY_DEAD_LETTER: 'sync:retryDeadLetter',
+  DISCARD_DEAD_LETTER: 'sync:discardDeadLetter'
+};
+
+/**
+ * Conflict inbox channels
+ */
+export const CONFLICT_CHANNELS = {
+  GET_ALL: 'conflicts:getAll',
+  RESOLVE: 'conflicts:resolve'
 };
 
 /**
@@ -27,6 +64,10 @@ export const SYNC_CHANNELS = {
 export const EVENTS = {
   SYNC_STATUS_CHANGE: 'sync-status-change',
   TODOS_UPDATED: 'todos-updated',
+  LISTS_UPDATED: 'lists-updated',
+  TAGS_UPDATED: 'tags-updated',
+  DEAD_LETTERS_UPDATED: 'dead-letters-updated',
+  CONFLICTS_UPDATED: 'conflicts-updated',
   APP_ERROR: 'app-error'
 };
 
@@ -35,7 +76,10 @@ export const EVENTS = {
  */
 export const ALL_CHANNELS = {
   ...TODO_CHANNELS,
-  ...SYNC_CHANNELS
+  ...LIST_CHANNELS,
+  ...TAG_CHANNELS,
+  ...SYNC_CHANNELS,
+  ...CONFLICT_CHANNELS
 };
 
 /**
@@ -5,7 +5,8 @@
 import { ipcMain } from 'electron';
 import { getLogger } from '../logging';
 import { syncCoordinator } from '../sync';
-import { SYNC_CHANNELS } from './channels';
+import { SYNC_CHANNELS, CONFLICT_CHANNELS } from './channels';
+import { ConflictResolution } from '../../@types/conflict';
 
 const logger = getLogger('IPCHandlers');
 
@@ -26,6 +27,24 @@ export function registerSyncHandlers(): void {
     logger.debug('IPC: sync:force called');
     return syncCoordinator.forceSync();
   });
+  
+  // List operations given up on after failed pushes
+  ipcMain.handle(SYNC_CHANNELS.GET_DEAD_LETTERS, () => {
+    logger.debug('IPC: sync:deadLetters called');
+    return syncCoordinator.getDeadLetters();
+  });
+  
+  // Requeue a dead-lettered operation
+  ipcMain.handle(SYNC_CHANNELS.RETRY_DEAD_LETTER, async (_, id: number) => {
+    logger.debug(`IPC: sync:retryDeadLetter called for ${id}`);
+    return syncCoordinator.retryDeadLetter(id);
+  });
+  
+  // Drop a dead-lettered operation
+  ipcMain.handle(SYNC_CHANNELS.DISCARD_DEAD_LETTER, (_, id: number) => {
+    logger.debug(`IPC: sync:discardDeadLetter called for ${id}`);
+    return syncCoordinator.discardDeadLetter(id);
+  });
 }
 
 /**
@@ -36,6 +55,38 @@ export function unregisterSyncHandlers(): void {
   
   ipcMain.removeHandler(SYNC_CHANNELS.GET_STATUS);
   ipcMain.removeHandler(SYNC_CHANNELS.FORCE_SYNC);
+  ipcMain.removeHandler(SYNC_CHANNELS.GET_DEAD_LETTERS);
+  ipcMain.removeHandler(SYNC_CHANNELS.RETRY_DEAD_LETTER);
+  ipcMain.removeHandler(SYNC_CHANNELS.DISCARD_DEAD_LETTER);
+}
+
+/**
+ * Register conflict inbox IPC handlers
+ */
+export function registerConflictHandlers(): void {
+  logger.info('Registering conflict IPC handlers');
+  
+  // List conflicts waiting for the user
+  ipcMain.handle(CONFLICT_CHANNELS.GET_ALL, () => {
+    logger.debug('IPC: conflicts:getAll called');
+    return syncCoordinator.getConflicts();
+  });
+  
+  // Resolve a conflict with the local, remote or merged values
+  ipcMain.handle(CONFLICT_CHANNELS.RESOLVE, (_, id: number, resolution: ConflictResolution, values?: Record<string, unknown>) => {
+    logger.debug(`IPC: conflicts:resolve called for ${id} (${resolution})`);
+    return syncCoordinator.resolveConflict(id, resolution, values);
+  });
+}
+
+/**
+ * Unregister conflict inbox IPC handlers
+ */
+export function unregisterConflictHandlers(): void {
+  logger.info('Unregistering conflict IPC handlers');
+  
+  ipcMain.removeHandler(CONFLICT_CHANNELS.GET_ALL);
+  ipcMain.removeHandler(CONFLICT_CHANNELS.RESOLVE);
 }
 
 /**
@@ -46,6 +97,7 @@ export function registerAllHandlers(): void {
   
   // Sync handlers are registered directly here
   registerSyncHandlers();
+  registerConflictHandlers();
   
   // Module-specific handlers are registered by their respective modules
   // See modules/todos/todo.ipc.ts for example
@@ -58,6 +110,7 @@ export function unregisterAllHandlers(): void {
   logger.info('Unregistering all IPC handlers');
   
   unregisterSyncHandlers();
+  unregisterConflictHandlers();
   
   // Module-specific handlers should be unregistered by their respective modules
 }
\ No newline at end of file
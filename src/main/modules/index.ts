@@ -4,6 +4,8 @@
  */
 import { getLogger } from '../logging';
 import { initializeTodoModule } from './todos';
+import { initializeListModule } from './lists';
+import { initializeTagModule } from './tags';
 
 const logger = getLogger('Modules');
 
@@ -13,9 +15,15 @@ const logger = getLogger('Modules');
 export function initializeModules(): void {
   logger.info('Initializing all modules');
   
+  // Initialize List module, registered first so its shape syncs before the todos that refer to it
+  initializeListModule();
+  
   // Initialize Todo module
   initializeTodoModule();
   
+  // Initialize Tag module
+  initializeTagModule();
+  
   // Initialize other modules as they are added
   // e.g. initializeCalendarModule();
   
@@ -0,0 +1,28 @@
+/**
+ * List module index file
+ */
+import { ListModel } from './list.model';
+import { listService } from './list.service';
+import { registerListIpcHandlers, unregisterListIpcHandlers } from './list.ipc';
+import { listShape } from './list.shape';
+import { shapeRegistry } from '../../sync/shapes';
+
+export {
+  ListModel,
+  listService,
+  listShape,
+  registerListIpcHandlers,
+  unregisterListIpcHandlers
+};
+
+// Export a function to initialize the list module
+export function initializeListModule(): void {
+  registerListIpcHandlers();
+  shapeRegistry.register(listShape);
+}
+
+export default {
+  model: ListModel,
+  service: listService,
+  initialize: initializeListModule
+};
@@ -0,0 +1,52 @@
+/**
+ * List IPC handlers
+ * Defines and registers IPC handlers for list operations
+ */
+import { ipcMain } from 'electron';
+import { getLogger } from '../../logging';
+import { listService } from './list.service';
+
+const logger = getLogger('ListIPC');
+
+/**
+ * Register all IPC handlers for lists
+ */
+export function registerListIpcHandlers(): void {
+  logger.info('Registering list IPC handlers');
+  
+  // Get all lists
+  ipcMain.handle('lists:getAll', () => {
+    logger.debug('IPC: lists:getAll called');
+    return listService.getAllLists();
+  });
+  
+  // Add a new list, rejects with a ValidationError for an invalid name or details
+  ipcMain.handle('lists:add', async (_, name: string, details?: unknown) => {
+    logger.debug(`IPC: lists:add called with name: "${name}"`);
+    return listService.addList(name, details);
+  });
+  
+  // Update fields of a list, rejects with a ValidationError for an invalid patch
+  ipcMain.handle('lists:update', async (_, id: string, patch: unknown) => {
+    logger.debug(`IPC: lists:update called for ${id}`);
+    return listService.updateList(id, patch);
+  });
+  
+  // Delete a list, its todos move to the trash
+  ipcMain.handle('lists:delete', async (_, id: string) => {
+    logger.debug(`IPC: lists:delete called for ${id}`);
+    return listService.deleteList(id);
+  });
+}
+
+/**
+ * Unregister all IPC handlers for lists
+ */
+export function unregisterListIpcHandlers(): void {
+  logger.info('Unregistering list IPC handlers');
+  
+  ipcMain.removeHandler('lists:getAll');
+  ipcMain.removeHandler('lists:add');
+  ipcMain.removeHandler('lists:update');
+  ipcMain.removeHandler('lists:delete');
+}
@@ -0,0 +1,147 @@
+/**
+ * List model
+ * Defines the data structure for a list of todos
+ */
+import { TodoList, ListPatch } from '../../../@types/list';
+import { parseFieldVersions } from '../../sync/conflict';
+import { ValidationError } from '../../error/app.error';
+
+// Fields of a list the user can change, each with its own version
+const VERSIONED_FIELDS = ['name', 'color', 'sort_order', 'created_at'] as const;
+
+// Longest name accepted, in characters
+const MAX_NAME_LENGTH = 100;
+
+// Colors are stored as 6-digit CSS hex colors
+const COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+/**
+ * List model with methods for validation and conversion
+ */
+export class ListModel {
+  /**
+   * Create a new TodoList object
+   * @param id UUID for the list
+   * @param name Name of the list
+   * @param sort_order Position of the list
+   * @param created_at Creation timestamp, also the version of every field
+   * @returns A new TodoList object
+   */
+  public static create(
+    id: string,
+    name: string,
+    sort_order: number,
+    created_at: string = new Date().toISOString()
+  ): TodoList {
+    const version = Date.parse(created_at);
+    return {
+      id,
+      name,
+      color: null,
+      sort_order,
+      created_at,
+      updated_at: created_at,
+      field_versions: Object.fromEntries(VERSIONED_FIELDS.map(field => [field, version]))
+    };
+  }
+  
+  /**
+   * Create a patch of changed fields, stamped with a new version for each of them
+   * @param changes The changed fields
+   * @param version Time (ms) of the change
+   * @returns The changes, with updated_at and the field versions they set
+   */
+  public static createPatch(changes: Partial<TodoList>, version: number = Date.now()): Partial<TodoList> {
+    const fields = Object.keys(changes).filter(field => (VERSIONED_FIELDS as readonly string[]).includes(field));
+    return {
+      ...changes,
+      updated_at: new Date(version).toISOString(),
+      field_versions: Object.fromEntries(fields.map(field => [field, version]))
+    };
+  }
+  
+  /**
+   * Convert a TodoList object to its database representation
+   * @param list TodoList object to convert
+   * @returns Object with properties ready for database storage
+   */
+  public static toDbModel(list: TodoList): any {
+    return {
+      id: list.id,
+      name: list.name,
+      color: list.color ?? null,
+      sort_order: list.sort_order,
+      created_at: list.created_at,
+      updated_at: list.updated_at ?? null,
+      field_versions: JSON.stringify(list.field_versions ?? {})
+    };
+  }
+  
+  /**
+   * Convert a database record to a TodoList object
+   * @param record Database record
+   * @returns TodoList object
+   */
+  public static fromDbModel(record: any): TodoList {
+    return {
+      id: record.id,
+      name: record.name,
+      color: record.color ?? null,
+      sort_order: record.sort_order ?? 0,
+      created_at: record.created_at,
+      updated_at: record.updated_at ?? undefined,
+      field_versions: parseFieldVersions(record.field_versions)
+    };
+  }
+  
+  /**
+   * Validate a patch from outside the main process
+   * @param patch The patch to validate
+   * @returns The patch, with the name trimmed
+   * @throws ValidationError if the patch is not an object, has unknown fields, no fields,
+   * or invalid values
+   */
+  public static validatePatch(patch: unknown): ListPatch {
+    if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+      throw new ValidationError('List patch must be an object');
+    }
+    
+    const values = patch as Record<string, unknown>;
+    const validated: ListPatch = {};
+    
+    for (const field of Object.keys(values)) {
+      const value = values[field];
+      if (field === 'name') {
+        if (typeof value !== 'string') {
+          throw new ValidationError('Name must be a string', field);
+        }
+        const name = value.trim();
+        if (name.length === 0) {
+          throw new ValidationError('Name must not be empty', field);
+        }
+        if (name.length > MAX_NAME_LENGTH) {
+          throw new ValidationError(`Name must be at most ${MAX_NAME_LENGTH} characters`, field);
+        }
+        validated.name = name;
+      } else if (field === 'color') {
+        if (value !== null && !(typeof value === 'string' && COLOR_PATTERN.test(value))) {
+          throw new ValidationError('Color must be a hex color like #3b82f6 or null', field);
+        }
+        validated.color = value === null ? null : (value as string).toLowerCase();
+      } else if (field === 'sort_order') {
+        if (!Number.isInteger(value)) {
+          throw new ValidationError('Sort order must be an integer', field);
+        }
+        validated.sort_order = value as number;
+      } else {
+        throw new ValidationError(`Field ${field} can't be updated`, field);
+      }
+    }
+    
+    if (Object.keys(validated).length === 0) {
+      throw new ValidationError('List patch has no fields to update');
+    }
+    
+    return validated;
+  }
+}
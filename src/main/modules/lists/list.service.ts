@@ -0,0 +1,259 @@
+/**
+ * List service
+ * Contains the business logic for lists
+ */
+import * as crypto from 'crypto';
+import Database from 'better-sqlite3';
+import { getLogger } from '../../logging';
+import { sqliteService } from '../../database';
+import { syncCoordinator } from '../../sync';
+import { offlineStorageService } from '../../sync/offline';
+import { todoService } from '../todos';
+import { ListModel } from './list.model';
+import { TodoList, ListPatch } from '../../../@types/list';
+import { SyncConflict } from '../../../@types/conflict';
+
+const logger = getLogger('ListService');
+
+/**
+ * List service class
+ */
+export class ListService {
+  /**
+   * Get all lists
+   * @returns Array of lists, in their sort order
+   */
+  public getAllLists(): TodoList[] {
+    try {
+      logger.info('Getting all lists');
+      
+      const lists = sqliteService.queryAll<TodoList>('SELECT * FROM lists ORDER BY sort_order, created_at');
+      return lists.map(list => ListModel.fromDbModel(list));
+    } catch (error) {
+      logger.error('Error getting all lists', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Get a list by ID
+   * @param id List ID
+   * @returns List or undefined if not found
+   */
+  public getListById(id: string): TodoList | undefined {
+    try {
+      const list = sqliteService.queryOne<TodoList>('SELECT * FROM lists WHERE id = ?', [id]);
+      return list ? ListModel.fromDbModel(list) : undefined;
+    } catch (error) {
+      logger.error(`Error getting list by ID: ${id}`, error);
+      return undefined;
+    }
+  }
+  
+  /**
+   * Add a new list, after the existing ones
+   * @param name List name
+   * @param details Color and sort order of the list, validated like an update
+   * @returns The newly created list or null if failed
+   * @throws ValidationError if the name or the details are invalid
+   */
+  public async addList(name: string, details?: unknown): Promise<TodoList | null> {
+    const patch: ListPatch = ListModel.validatePatch({ ...(details as object | undefined), name });
+    
+    try {
+      const id = crypto.randomUUID();
+      const created_at = new Date().toISOString();
+      
+      logger.info(`Adding new list: ${id} - "${patch.name}"`);
+      
+      // Insert into local database together with its outbox entry
+      const { list, operation } = sqliteService.transaction(db => {
+        const last = db.prepare('SELECT MAX(sort_order) AS sort_order FROM lists').get() as { sort_order: number | null };
+        const newList = {
+          ...ListModel.create(id, patch.name!, patch.sort_order ?? (last.sort_order ?? -1) + 1, created_at),
+          color: patch.color ?? null
+        };
+        
+        const record = ListModel.toDbModel(newList);
+        db.prepare(
+          `INSERT INTO lists (id, name, color, sort_order, created_at, updated_at, field_versions)
+           VALUES (?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          record.id,
+          record.name,
+          record.color,
+          record.sort_order,
+          record.created_at,
+          record.updated_at,
+          record.field_versions
+        );
+        
+        return {
+          list: newList,
+          operation: offlineStorageService.addPendingOperation('lists', 'create', id, newList, db)
+        };
+      });
+      
+      if (operation) {
+        syncCoordinator.requestOutboxPush();
+      }
+      
+      return list;
+    } catch (error) {
+      logger.error('Error adding list', error);
+      return null;
+    }
+  }
+  
+  /**
+   * Update fields of a list
+   * @param id List ID
+   * @param patch The changed fields, validated by ListModel.validatePatch
+   * @returns The updated list, or null if it wasn't found or the update failed
+   * @throws ValidationError if the patch is invalid
+   */
+  public async updateList(id: string, patch: unknown): Promise<TodoList | null> {
+    const changes = ListModel.createPatch(ListModel.validatePatch(patch));
+    
+    try {
+      logger.info(`Updating list ${id} (${Object.keys(changes.field_versions ?? {}).join(', ')})`);
+      
+      const operation = sqliteService.transaction(db => {
+        if (!this.writeLocalPatch(db, id, changes)) {
+          return undefined;
+        }
+        return offlineStorageService.addPendingOperation('lists', 'update', id, changes, db);
+      });
+      
+      if (operation === undefined) {
+        logger.warn(`List with id ${id} not found for update`);
+        return null;
+      }
+      
+      if (operation) {
+        syncCoordinator.requestOutboxPush();
+      }
+      
+      return this.getListById(id) ?? null;
+    } catch (error) {
+      logger.error(`Error updating list ${id}`, error);
+      return null;
+    }
+  }
+  
+  /**
+   * Delete a list
+   * Its todos move to the trash, out of the list, so they can still be restored (into the
+   * inbox). Their updates are queued before the list's delete
+   * @param id List ID
+   * @returns True if successful, false otherwise
+   */
+  public async deleteList(id: string): Promise<boolean> {
+    try {
+      logger.info(`Deleting list ${id}`);
+      
+      const deleted = sqliteService.transaction(db => {
+        if (!db.prepare('SELECT 1 FROM lists WHERE id = ?').get(id)) {
+          return false;
+        }
+        
+        todoService.detachFromList(db, id);
+        db.prepare('DELETE FROM lists WHERE id = ?').run(id);
+        offlineStorageService.addPendingOperation('lists', 'delete', id, undefined, db);
+        return true;
+      });
+      
+      if (!deleted) {
+        logger.warn(`List with id ${id} not found for deletion`);
+        return false;
+      }
+      
+      syncCoordinator.requestOutboxPush();
+      return true;
+    } catch (error) {
+      logger.error(`Error deleting list ${id}`, error);
+      return false;
+    }
+  }
+  
+  /**
+   * Write the resolution of a sync conflict of a list
+   * Only the conflicting columns are settled; lists deleted remotely never reach the inbox,
+   * so there is no deletion to accept or undo
+   * @param conflict The conflict being resolved
+   * @param values The chosen values
+   * @returns True if the resolution was written
+   */
+  public resolveConflict(conflict: SyncConflict, values: Record<string, unknown> | null): boolean {
+    const id = conflict.rowId;
+    
+    // Remote list deletions are applied right away, they never wait in the inbox
+    if (values === null || conflict.remote === null) {
+      logger.warn(`Conflict ${conflict.id} of list ${id} has no remote values to settle`);
+      return false;
+    }
+    
+    const changes: ListPatch = {};
+    for (const column of conflict.columns) {
+      if (column === 'name' && typeof values.name === 'string' && values.name.trim().length > 0) {
+        changes.name = values.name.trim();
+      } else if (column === 'color' && (values.color === null || typeof values.color === 'string')) {
+        changes.color = values.color as string | null;
+      } else if (column === 'sort_order' && Number.isInteger(Number(values.sort_order))) {
+        changes.sort_order = Number(values.sort_order);
+      } else if (values.hasOwnProperty(column)) {
+        logger.warn(`Ignoring invalid value of ${column} while resolving conflict ${conflict.id}`);
+      }
+    }
+    
+    const patch = ListModel.createPatch(changes);
+    
+    return sqliteService.transaction(db => {
+      if (!this.writeLocalPatch(db, id, patch)) {
+        logger.warn(`List with id ${id} not found while resolving conflict ${conflict.id}`);
+        return false;
+      }
+      
+      logger.info(`Resolving conflict ${conflict.id} of list ${id} (${Object.keys(changes).join(', ')})`);
+      offlineStorageService.addPendingOperation('lists', 'update', id, patch, db);
+      return true;
+    });
+  }
+  
+  /**
+   * Write a patch of a list to the local database
+   * @param db Database instance of the surrounding transaction
+   * @param id List ID
+   * @param patch Changed fields with their versions, see ListModel.createPatch
+   * @returns False if there is no such list
+   */
+  private writeLocalPatch(db: Database.Database, id: string, patch: Partial<TodoList>): boolean {
+    const updates: string[] = [];
+    const params: any[] = [];
+    
+    if (patch.name !== undefined) {
+      updates.push('name = ?');
+      params.push(patch.name);
+    }
+    
+    if (patch.color !== undefined) {
+      updates.push('color = ?');
+      params.push(patch.color);
+    }
+    
+    if (patch.sort_order !== undefined) {
+      updates.push('sort_order = ?');
+      params.push(patch.sort_order);
+    }
+    
+    updates.push('updated_at = ?', 'field_versions = json_patch(field_versions, ?)');
+    params.push(patch.updated_at, JSON.stringify(patch.field_versions ?? {}));
+    
+    const result = db.prepare(`UPDATE lists SET ${updates.join(', ')} WHERE id = ?`).run(...params, id);
+    return result.changes > 0;
+  }
+}
+
+// Export as singleton
+export const listService = new ListService();
+export default listService;
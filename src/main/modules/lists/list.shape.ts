@@ -0,0 +1,257 @@
+/**
+ * List shape
+ * Declares the lists shape and how its changes are applied to the local database
+ */
+import Database from 'better-sqlite3';
+import { getLogger } from '../../logging';
+import { offlineStorageService } from '../../sync/offline';
+import { supabaseService } from '../../sync/supabase';
+import { mergeFields, parseFieldVersions, getUpdatedAt, conflictStore } from '../../sync/conflict';
+import { SyncConflictError } from '../../error/app.error';
+import { listService } from './list.service';
+import type { ProcessedShapeEntry, ShapeSchema } from '../../sync/electric';
+import type { ShapeDefinition, ShapeApplyResult } from '../../sync/shapes';
+import type { PendingOperation } from '../../sync/offline';
+import type { TodoList } from '../../../@types/list';
+
+const logger = getLogger('ListShape');
+
+// Synced columns of the lists table, other than the primary key
+const LIST_COLUMNS = ['name', 'color', 'sort_order', 'created_at'];
+
+// Column types of the remote lists table (supabase/schema.sql),
+// used until Electric has sent the electric-schema header
+const LIST_SCHEMA: ShapeSchema = {
+  id: { type: 'uuid', pk_index: 0, not_null: true },
+  name: { type: 'text', not_null: true },
+  color: { type: 'text' },
+  sort_order: { type: 'int4', not_null: true },
+  created_at: { type: 'timestamptz' },
+  updated_at: { type: 'timestamptz' },
+  field_versions: { type: 'jsonb' },
+  client_mutation_id: { type: 'uuid' }
+};
+
+// Remote column carrying the client mutation id of the last local change pushed for a row
+const MUTATION_ID_COLUMN = 'client_mutation_id';
+
+/**
+ * Local list row, as read for merging
+ */
+interface ListRecord {
+  id: string;
+  name: string;
+  color: string | null;
+  sort_order: number;
+  created_at: string;
+  updated_at: string | null;
+  field_versions: string;
+  synced_values: string;
+}
+
+/**
+ * Pick some columns of a set of values
+ * @param values The values
+ * @param columns The columns to pick, missing ones are left out
+ */
+function pickValues(values: Record<string, unknown>, columns: Iterable<string>): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const column of columns) {
+    if (values.hasOwnProperty(column)) {
+      picked[column] = values[column];
+    }
+  }
+  return picked;
+}
+
+/**
+ * Apply list shape entries to the lists table
+ * Changes are matched against the outbox and merged field by field like todos (see the todo
+ * shape). A remote deletion always wins, even over unpushed local edits: the list's todos
+ * were moved out of it by the device that deleted it, and the ones only this device knows
+ * about land in the inbox
+ * Called by the sync coordinator inside a transaction
+ * @param db Database instance of the surrounding transaction
+ * @param entries Processed shape entries
+ */
+function applyListEntries(db: Database.Database, entries: ProcessedShapeEntry[]): ShapeApplyResult {
+  let inserted = 0;
+  let updated = 0;
+  let deleted = 0;
+  
+  const conflicts: SyncConflictError[] = [];
+  
+  const selectStmt = db.prepare('SELECT * FROM lists WHERE id = ?');
+  const deleteStmt = db.prepare('DELETE FROM lists WHERE id = ?');
+  const detachStmt = db.prepare('UPDATE todos SET list_id = NULL WHERE list_id = ?');
+  const upsertStmt = db.prepare(
+    `INSERT INTO lists (id, name, color, sort_order, created_at, updated_at, field_versions, synced_values)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET name = excluded.name, color = excluded.color, sort_order = excluded.sort_order,
+       created_at = excluded.created_at, updated_at = excluded.updated_at, field_versions = excluded.field_versions,
+       synced_values = excluded.synced_values`
+  );
+  const updateStmts = new Map<string, Database.Statement>();
+  
+  for (const entry of entries) {
+    try {
+      const id = entry.key.id as string;
+      
+      if (entry.operation === 'delete') {
+        offlineStorageService.clearPendingOperation('lists', id);
+        
+        const info = deleteStmt.run(id);
+        const detached = detachStmt.run(id);
+        if (detached.changes > 0) {
+          logger.info(`Moved ${detached.changes} todos of list ${id}, deleted remotely, to the inbox`);
+        }
+        if (info.changes > 0) deleted++;
+        else logger.warn(`Delete for ${entry.id} affected 0 rows (may have been deleted already)`);
+        continue;
+      }
+      
+      const reconciliation = offlineStorageService.confirmEcho(
+        db,
+        'lists',
+        id,
+        entry.operation,
+        entry.value?.[MUTATION_ID_COLUMN]
+      );
+      if (reconciliation.pendingCreate) {
+        logger.debug(`Skipping ${entry.operation} for ${entry.id}, its local create is not confirmed yet`);
+        continue;
+      }
+      if (reconciliation.pendingDelete) {
+        logger.debug(`Skipping ${entry.operation} for ${entry.id}, it was deleted locally`);
+        continue;
+      }
+      
+      if (!entry.value) {
+        logger.warn(`Skipping ${entry.operation} for ${entry.id} due to missing value`);
+        continue;
+      }
+      
+      const local = selectStmt.get(id) as ListRecord | undefined;
+      if (!local && entry.operation === 'update') {
+        logger.warn(`Update for ${entry.id} affected 0 rows`);
+        continue;
+      }
+      
+      const synced = local ? JSON.parse(local.synced_values) : {};
+      const remote = pickValues(entry.value, LIST_COLUMNS);
+      
+      const merge = mergeFields({
+        table: 'lists',
+        rowId: entry.id,
+        remote,
+        remoteVersions: entry.value.hasOwnProperty('field_versions')
+          ? parseFieldVersions(entry.value.field_versions)
+          : undefined,
+        local: local ? pickValues(local as unknown as Record<string, unknown>, LIST_COLUMNS) : {},
+        localVersions: local ? parseFieldVersions(local.field_versions) : {},
+        pendingColumns: reconciliation.pendingColumns
+      });
+      if (merge.conflict && local) {
+        conflictStore.record(db, {
+          table: 'lists',
+          rowId: entry.id,
+          columns: merge.conflict.columns,
+          local: pickValues(local as unknown as Record<string, unknown>, merge.conflict.columns),
+          remote: pickValues(remote, merge.conflict.columns),
+          base: pickValues(synced, merge.conflict.columns)
+        });
+        conflicts.push(merge.conflict);
+      }
+      
+      const columns = Object.keys(merge.values);
+      const updatedAt = getUpdatedAt(merge.versions) ?? entry.value.updated_at ?? local?.updated_at ?? null;
+      const versions = JSON.stringify(merge.versions);
+      const syncedValues = JSON.stringify({ ...synced, ...remote });
+      
+      if (!local) {
+        upsertStmt.run(
+          id,
+          merge.values.name || '',
+          merge.values.color ?? null,
+          merge.values.sort_order ?? 0,
+          merge.values.created_at || new Date().toISOString(),
+          updatedAt,
+          versions,
+          syncedValues
+        );
+        inserted++;
+        continue;
+      }
+      
+      // Build SET clause dynamically based on the merged fields
+      const key = columns.join(',');
+      if (!updateStmts.has(key)) {
+        const updates = [...columns, 'updated_at', 'field_versions', 'synced_values'].map(column => `${column} = ?`);
+        updateStmts.set(key, db.prepare(`UPDATE lists SET ${updates.join(', ')} WHERE id = ?`));
+      }
+      
+      const info = updateStmts.get(key)!.run(...columns.map(column => merge.values[column]), updatedAt, versions, syncedValues, id);
+      if (info.changes > 0) updated++;
+      else logger.warn(`Update for ${entry.id} affected 0 rows`);
+    } catch (dbError) {
+      logger.error(`Error applying ${entry.operation} for list ${entry.id}`, dbError);
+      throw dbError;
+    }
+  }
+  
+  return {
+    total: inserted + updated + deleted,
+    inserts: inserted,
+    updates: updated,
+    deletes: deleted,
+    conflicts
+  };
+}
+
+/**
+ * Push a queued list operation to Supabase
+ * @param op The queued operation
+ */
+async function pushListOperation(op: PendingOperation): Promise<void> {
+  switch (op.type) {
+    case 'create': {
+      const list = op.data as TodoList;
+      await supabaseService.upsertRow('lists', {
+        id: list.id,
+        name: list.name,
+        color: list.color ?? null,
+        sort_order: list.sort_order,
+        created_at: list.created_at,
+        updated_at: list.updated_at ?? list.created_at,
+        field_versions: list.field_versions ?? {}
+      }, 'id', op.mutationId);
+      break;
+    }
+    
+    case 'update':
+      await supabaseService.updateRow('lists', op.rowId, op.data, op.mutationId);
+      break;
+    
+    case 'delete':
+      await supabaseService.deleteRow('lists', op.rowId);
+      break;
+  }
+}
+
+/**
+ * Lists shape definition
+ */
+export const listShape: ShapeDefinition = {
+  name: 'lists',
+  table: 'lists',
+  schema: LIST_SCHEMA,
+  localTable: 'lists',
+  primaryKey: 'id',
+  rendererEvent: 'lists-updated',
+  apply: applyListEntries,
+  getPendingIds: () => offlineStorageService.getUnconfirmedRowIds('lists'),
+  resolveConflict: (conflict, values) => listService.resolveConflict(conflict, values),
+  push: pushListOperation
+};
+
+export default listShape;
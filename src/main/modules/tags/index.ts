@@ -0,0 +1,30 @@
+/**
+ * Tag module index file
+ */
+import { TagModel } from './tag.model';
+import { tagService } from './tag.service';
+import { registerTagIpcHandlers, unregisterTagIpcHandlers } from './tag.ipc';
+import { tagShape, todoTagShape } from './tag.shape';
+import { shapeRegistry } from '../../sync/shapes';
+
+export {
+  TagModel,
+  tagService,
+  tagShape,
+  todoTagShape,
+  registerTagIpcHandlers,
+  unregisterTagIpcHandlers
+};
+
+// Export a function to initialize the tag module
+export function initializeTagModule(): void {
+  registerTagIpcHandlers();
+  shapeRegistry.register(tagShape);
+  shapeRegistry.register(todoTagShape);
+}
+
+export default {
+  model: TagModel,
+  service: tagService,
+  initialize: initializeTagModule
+};
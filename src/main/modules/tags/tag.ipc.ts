@@ -0,0 +1,45 @@
+/**
+ * Tag IPC handlers
+ * Defines and registers IPC handlers for tag operations
+ */
+import { ipcMain } from 'electron';
+import { getLogger } from '../../logging';
+import { tagService } from './tag.service';
+
+const logger = getLogger('TagIPC');
+
+/**
+ * Register all IPC handlers for tags
+ */
+export function registerTagIpcHandlers(): void {
+  logger.info('Registering tag IPC handlers');
+  
+  // Get the tags in use
+  ipcMain.handle('tags:getAll', () => {
+    logger.debug('IPC: tags:getAll called');
+    return tagService.getTagSummaries();
+  });
+  
+  // Tag a todo, rejects with a ValidationError for an invalid name
+  ipcMain.handle('tags:assign', async (_, todoId: string, name: unknown) => {
+    logger.debug(`IPC: tags:assign called for ${todoId}`);
+    return tagService.assignTag(todoId, name);
+  });
+  
+  // Remove a tag from a todo
+  ipcMain.handle('tags:unassign', async (_, todoId: string, tagId: string) => {
+    logger.debug(`IPC: tags:unassign called for ${todoId} and ${tagId}`);
+    return tagService.unassignTag(todoId, tagId);
+  });
+}
+
+/**
+ * Unregister all IPC handlers for tags
+ */
+export function unregisterTagIpcHandlers(): void {
+  logger.info('Unregistering tag IPC handlers');
+  
+  ipcMain.removeHandler('tags:getAll');
+  ipcMain.removeHandler('tags:assign');
+  ipcMain.removeHandler('tags:unassign');
+}
@@ -0,0 +1,60 @@
+/**
+ * Tag model
+ * Defines the data structure for tags and their assignment to todos
+ */
+import { Tag } from '../../../@types/tag';
+import { serializeRowKey } from '../../sync/electric';
+import { ValidationError } from '../../error/app.error';
+
+// Longest tag name accepted, in characters
+const MAX_NAME_LENGTH = 50;
+
+// Primary key columns of todo_tags, in key order
+export const TODO_TAG_KEY = ['todo_id', 'tag_id'];
+
+/**
+ * Tag model with methods for validation and conversion
+ */
+export class TagModel {
+  /**
+   * Validate a tag name from outside the main process
+   * @param name The name to validate
+   * @returns The name, trimmed
+   * @throws ValidationError if the name is not a string, empty or too long
+   */
+  public static validateName(name: unknown): string {
+    if (typeof name !== 'string') {
+      throw new ValidationError('Tag must be a string', 'name');
+    }
+    const trimmed = name.trim();
+    if (trimmed.length === 0) {
+      throw new ValidationError('Tag must not be empty', 'name');
+    }
+    if (trimmed.length > MAX_NAME_LENGTH) {
+      throw new ValidationError(`Tag must be at most ${MAX_NAME_LENGTH} characters`, 'name');
+    }
+    return trimmed;
+  }
+  
+  /**
+   * Get the outbox row id of a tag assignment
+   * @param todoId Todo ID
+   * @param tagId Tag ID
+   * @returns The serialized primary key of the todo_tags row
+   */
+  public static getAssignmentKey(todoId: string, tagId: string): string {
+    return serializeRowKey({ todo_id: todoId, tag_id: tagId }, TODO_TAG_KEY);
+  }
+  
+  /**
+   * Convert a database record to a Tag object
+   * @param record Database record
+   * @returns Tag object
+   */
+  public static fromDbModel(record: any): Tag {
+    return {
+      id: record.id,
+      name: record.name
+    };
+  }
+}
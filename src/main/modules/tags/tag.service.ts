@@ -0,0 +1,161 @@
+/**
+ * Tag service
+ * Contains the business logic for tags and their assignment to todos
+ */
+import * as crypto from 'crypto';
+import Database from 'better-sqlite3';
+import { getLogger } from '../../logging';
+import { sqliteService } from '../../database';
+import { syncCoordinator } from '../../sync';
+import { offlineStorageService } from '../../sync/offline';
+import { TagModel } from './tag.model';
+import { Tag, TagSummary } from '../../../@types/tag';
+
+const logger = getLogger('TagService');
+
+/**
+ * Tag service class
+ * Tags are created when first assigned and never change; an assignment is a todo_tags row,
+ * created and deleted as a whole. Both are queued in the outbox like todos, an assignment
+ * behind the creates of its todo and its tag
+ */
+export class TagService {
+  /**
+   * Get the tags in use, with the number of todos that carry them
+   * Tags with the same name (ignoring case) are counted as one
+   * @returns Array of tag summaries, by name
+   */
+  public getTagSummaries(): TagSummary[] {
+    try {
+      logger.info('Getting tag summaries');
+      
+      return sqliteService.queryAll<TagSummary>(
+        `SELECT MIN(g.name) AS name, COUNT(DISTINCT tt.todo_id) AS todo_count
+         FROM tags g
+         JOIN todo_tags tt ON tt.tag_id = g.id
+         JOIN todos t ON t.id = tt.todo_id AND t.deleted_at IS NULL
+         GROUP BY g.name COLLATE NOCASE
+         ORDER BY g.name COLLATE NOCASE`
+      );
+    } catch (error) {
+      logger.error('Error getting tag summaries', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Tag a todo
+   * Reuses the tag with the same name (ignoring case) if there is one, creates it otherwise
+   * @param todoId Todo ID
+   * @param name Tag name
+   * @returns The tag, or null if the todo wasn't found or tagging failed
+   * @throws ValidationError if the name is invalid
+   */
+  public async assignTag(todoId: string, name: unknown): Promise<Tag | null> {
+    const tagName = TagModel.validateName(name);
+    
+    try {
+      logger.info(`Tagging todo ${todoId} with "${tagName}"`);
+      
+      const result = sqliteService.transaction(db => {
+        if (!db.prepare('SELECT 1 FROM todos WHERE id = ?').get(todoId)) {
+          return undefined;
+        }
+        
+        let queued = false;
+        let tag = db.prepare(
+          'SELECT * FROM tags WHERE name = ? COLLATE NOCASE ORDER BY created_at, id LIMIT 1'
+        ).get(tagName) as Tag | undefined;
+        
+        if (!tag) {
+          const created_at = new Date().toISOString();
+          tag = { id: crypto.randomUUID(), name: tagName };
+          db.prepare('INSERT INTO tags (id, name, created_at) VALUES (?, ?, ?)').run(tag.id, tag.name, created_at);
+          queued = offlineStorageService.addPendingOperation('tags', 'create', tag.id, { ...tag, created_at }, db) !== null;
+        }
+        
+        const assignment = { todo_id: todoId, tag_id: tag.id, created_at: new Date().toISOString() };
+        const inserted = db.prepare(
+          'INSERT OR IGNORE INTO todo_tags (todo_id, tag_id, created_at) VALUES (?, ?, ?)'
+        ).run(assignment.todo_id, assignment.tag_id, assignment.created_at);
+        if (inserted.changes > 0) {
+          const key = TagModel.getAssignmentKey(todoId, tag.id);
+          queued = offlineStorageService.addPendingOperation('todo_tags', 'create', key, assignment, db) !== null || queued;
+        }
+        
+        return { tag: TagModel.fromDbModel(tag), queued };
+      });
+      
+      if (!result) {
+        logger.warn(`Todo with id ${todoId} not found for tagging`);
+        return null;
+      }
+      
+      if (result.queued) {
+        syncCoordinator.requestOutboxPush();
+      }
+      
+      return result.tag;
+    } catch (error) {
+      logger.error(`Error tagging todo ${todoId}`, error);
+      return null;
+    }
+  }
+  
+  /**
+   * Remove a tag from a todo
+   * @param todoId Todo ID
+   * @param tagId Tag ID
+   * @returns True if successful, false if the todo didn't carry the tag or removing failed
+   */
+  public async unassignTag(todoId: string, tagId: string): Promise<boolean> {
+    try {
+      logger.info(`Removing tag ${tagId} from todo ${todoId}`);
+      
+      const result = sqliteService.transaction(db => {
+        const deleted = db.prepare('DELETE FROM todo_tags WHERE todo_id = ? AND tag_id = ?').run(todoId, tagId);
+        if (deleted.changes === 0) {
+          return undefined;
+        }
+        
+        const key = TagModel.getAssignmentKey(todoId, tagId);
+        return offlineStorageService.addPendingOperation('todo_tags', 'delete', key, { todo_id: todoId, tag_id: tagId }, db);
+      });
+      
+      if (result === undefined) {
+        logger.warn(`Todo ${todoId} doesn't carry tag ${tagId}`);
+        return false;
+      }
+      
+      // Null if the delete cancelled an assignment that was never pushed
+      if (result) {
+        syncCoordinator.requestOutboxPush();
+      }
+      
+      return true;
+    } catch (error) {
+      logger.error(`Error removing tag ${tagId} from todo ${todoId}`, error);
+      return false;
+    }
+  }
+  
+  /**
+   * Drop the tags of a todo that is gone for good
+   * Supabase drops them along with the todo; queuing their deletes cancels assignments that
+   * were never pushed, which would otherwise fail once the todo is gone
+   * @param db Database instance of the transaction that deletes the todo
+   * @param todoId Todo ID
+   */
+  public forgetTodo(db: Database.Database, todoId: string): void {
+    const rows = db.prepare('SELECT tag_id FROM todo_tags WHERE todo_id = ?').all(todoId) as { tag_id: string }[];
+    for (const row of rows) {
+      const key = TagModel.getAssignmentKey(todoId, row.tag_id);
+      offlineStorageService.addPendingOperation('todo_tags', 'delete', key, { todo_id: todoId, tag_id: row.tag_id }, db);
+    }
+    db.prepare('DELETE FROM todo_tags WHERE todo_id = ?').run(todoId);
+  }
+}
+
+// Export as singleton
+export const tagService = new TagService();
+export default tagService;
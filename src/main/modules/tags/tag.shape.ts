@@ -0,0 +1,244 @@
+/**
+ * Tag shapes
+ * Declare the tags and todo_tags shapes and how their changes are applied to the local database
+ */
+import Database from 'better-sqlite3';
+import { getLogger } from '../../logging';
+import { offlineStorageService } from '../../sync/offline';
+import { supabaseService } from '../../sync/supabase';
+import { TODO_TAG_KEY } from './tag.model';
+import type { ProcessedShapeEntry, ShapeSchema } from '../../sync/electric';
+import type { ShapeDefinition, ShapeApplyResult } from '../../sync/shapes';
+import type { PendingOperation, RowReference } from '../../sync/offline';
+
+const logger = getLogger('TagShape');
+
+// Column types of the remote tags and todo_tags tables (supabase/schema.sql),
+// used until Electric has sent the electric-schema header
+const TAG_SCHEMA: ShapeSchema = {
+  id: { type: 'uuid', pk_index: 0, not_null: true },
+  name: { type: 'text', not_null: true },
+  created_at: { type: 'timestamptz' },
+  client_mutation_id: { type: 'uuid' }
+};
+
+const TODO_TAG_SCHEMA: ShapeSchema = {
+  todo_id: { type: 'uuid', pk_index: 0, not_null: true },
+  tag_id: { type: 'uuid', pk_index: 1, not_null: true },
+  created_at: { type: 'timestamptz' },
+  client_mutation_id: { type: 'uuid' }
+};
+
+// Remote column carrying the client mutation id of the last local change pushed for a row
+const MUTATION_ID_COLUMN = 'client_mutation_id';
+
+/**
+ * Count the entries of a batch
+ */
+function createApplyResult(): ShapeApplyResult {
+  return { total: 0, inserts: 0, updates: 0, deletes: 0 };
+}
+
+/**
+ * Apply tag shape entries to the tags table
+ * Tags never change once created, so there is nothing to merge; the outbox only decides
+ * whether an entry is an echo of a local change
+ * Called by the sync coordinator inside a transaction
+ * @param db Database instance of the surrounding transaction
+ * @param entries Processed shape entries
+ */
+function applyTagEntries(db: Database.Database, entries: ProcessedShapeEntry[]): ShapeApplyResult {
+  const result = createApplyResult();
+  
+  const upsertStmt = db.prepare(
+    `INSERT INTO tags (id, name, created_at) VALUES (?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET name = excluded.name, created_at = excluded.created_at`
+  );
+  const deleteStmt = db.prepare('DELETE FROM tags WHERE id = ?');
+  const detachStmt = db.prepare('DELETE FROM todo_tags WHERE tag_id = ?');
+  
+  for (const entry of entries) {
+    try {
+      const id = entry.key.id as string;
+      const reconciliation = offlineStorageService.confirmEcho(
+        db,
+        'tags',
+        id,
+        entry.operation,
+        entry.value?.[MUTATION_ID_COLUMN]
+      );
+      if (reconciliation.pendingCreate) {
+        logger.debug(`Skipping ${entry.operation} for tag ${entry.id}, its local create is not confirmed yet`);
+        continue;
+      }
+      
+      if (entry.operation === 'delete') {
+        deleteStmt.run(id);
+        detachStmt.run(id);
+        result.deletes++;
+        continue;
+      }
+      
+      if (!entry.value) {
+        logger.warn(`Skipping ${entry.operation} for tag ${entry.id} due to missing value`);
+        continue;
+      }
+      
+      upsertStmt.run(id, entry.value.name ?? '', entry.value.created_at ?? new Date().toISOString());
+      if (entry.operation === 'insert') result.inserts++;
+      else result.updates++;
+    } catch (dbError) {
+      logger.error(`Error applying ${entry.operation} for tag ${entry.id}`, dbError);
+      throw dbError;
+    }
+  }
+  
+  result.total = result.inserts + result.updates + result.deletes;
+  return result;
+}
+
+/**
+ * Apply todo_tags shape entries to the todo_tags table
+ * An assignment removed locally isn't brought back by a remote insert (or the echo of its
+ * earlier create), and one added locally isn't dropped by a remote delete, until the local
+ * change is confirmed
+ * Called by the sync coordinator inside a transaction
+ * @param db Database instance of the surrounding transaction
+ * @param entries Processed shape entries
+ */
+function applyTodoTagEntries(db: Database.Database, entries: ProcessedShapeEntry[]): ShapeApplyResult {
+  const result = createApplyResult();
+  
+  const insertStmt = db.prepare('INSERT OR IGNORE INTO todo_tags (todo_id, tag_id, created_at) VALUES (?, ?, ?)');
+  const deleteStmt = db.prepare('DELETE FROM todo_tags WHERE todo_id = ? AND tag_id = ?');
+  
+  for (const entry of entries) {
+    try {
+      const todoId = entry.key.todo_id as string;
+      const tagId = entry.key.tag_id as string;
+      const reconciliation = offlineStorageService.confirmEcho(
+        db,
+        'todo_tags',
+        entry.id,
+        entry.operation,
+        entry.value?.[MUTATION_ID_COLUMN]
+      );
+      
+      if (entry.operation === 'delete') {
+        if (reconciliation.pendingCreate) {
+          logger.debug(`Keeping tag assignment ${entry.id}, it was added again locally`);
+          continue;
+        }
+        if (deleteStmt.run(todoId, tagId).changes > 0) result.deletes++;
+        continue;
+      }
+      
+      if (reconciliation.pendingDelete) {
+        logger.debug(`Skipping ${entry.operation} for tag assignment ${entry.id}, it was removed locally`);
+        continue;
+      }
+      
+      const info = insertStmt.run(todoId, tagId, entry.value?.created_at ?? new Date().toISOString());
+      if (info.changes > 0) result.inserts++;
+    } catch (dbError) {
+      logger.error(`Error applying ${entry.operation} for tag assignment ${entry.id}`, dbError);
+      throw dbError;
+    }
+  }
+  
+  result.total = result.inserts + result.updates + result.deletes;
+  return result;
+}
+
+/**
+ * Push a queued tag operation to Supabase
+ * @param op The queued operation
+ */
+async function pushTagOperation(op: PendingOperation): Promise<void> {
+  switch (op.type) {
+    case 'create':
+      await supabaseService.upsertRow('tags', {
+        id: op.data.id,
+        name: op.data.name,
+        created_at: op.data.created_at
+      }, 'id', op.mutationId);
+      break;
+    
+    case 'delete':
+      await supabaseService.deleteRow('tags', op.rowId);
+      break;
+    
+    default:
+      logger.warn(`Ignoring ${op.type} operation for tag ${op.rowId}, tags don't change`);
+  }
+}
+
+/**
+ * Push a queued tag assignment operation to Supabase
+ * Assignments are upserted: the same tag may have been put on the todo on another device
+ * @param op The queued operation
+ */
+async function pushTodoTagOperation(op: PendingOperation): Promise<void> {
+  switch (op.type) {
+    case 'create':
+      await supabaseService.upsertRow('todo_tags', {
+        todo_id: op.data.todo_id,
+        tag_id: op.data.tag_id,
+        created_at: op.data.created_at
+      }, TODO_TAG_KEY.join(','), op.mutationId);
+      break;
+    
+    case 'delete':
+      await supabaseService.deleteRow('todo_tags', { todo_id: op.data.todo_id, tag_id: op.data.tag_id });
+      break;
+    
+    default:
+      logger.warn(`Ignoring ${op.type} operation for tag assignment ${op.rowId}, assignments don't change`);
+  }
+}
+
+/**
+ * Get the todo and the tag a queued assignment links
+ * Their creates have to reach Supabase first, even when both were made offline
+ * @param op The queued operation
+ */
+function getTodoTagDependencies(op: PendingOperation): RowReference[] {
+  if (op.type !== 'create') {
+    return [];
+  }
+  return [
+    { table: 'todos', rowId: op.data.todo_id },
+    { table: 'tags', rowId: op.data.tag_id }
+  ];
+}
+
+/**
+ * Tags shape definition
+ */
+export const tagShape: ShapeDefinition = {
+  name: 'tags',
+  table: 'tags',
+  schema: TAG_SCHEMA,
+  localTable: 'tags',
+  primaryKey: 'id',
+  rendererEvent: 'tags-updated',
+  apply: applyTagEntries,
+  getPendingIds: () => offlineStorageService.getUnconfirmedRowIds('tags'),
+  push: pushTagOperation
+};
+
+/**
+ * Todo tags shape definition, the many-to-many link between todos and tags
+ */
+export const todoTagShape: ShapeDefinition = {
+  name: 'todo_tags',
+  table: 'todo_tags',
+  schema: TODO_TAG_SCHEMA,
+  localTable: 'todo_tags',
+  primaryKey: TODO_TAG_KEY,
+  rendererEvent: 'tags-updated',
+  apply: applyTodoTagEntries,
+  getPendingIds: () => offlineStorageService.getUnconfirmedRowIds('todo_tags'),
+  push: pushTodoTagOperation,
+  getDependencies: getTodoTagDependencies
+};
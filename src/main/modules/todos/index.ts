@@ -3,11 +3,18 @@
  */
 import { TodoModel } from './todo.model';
 import { todoService } from './todo.service';
+import { todoHistory } from './todo.history';
+import { reminderScheduler } from './reminder.scheduler';
 import { registerTodoIpcHandlers, unregisterTodoIpcHandlers } from './todo.ipc';
+import { todoShape } from './todo.shape';
+import { shapeRegistry } from '../../sync/shapes';
 
 export {
   TodoModel,
   todoService,
+  todoHistory,
+  reminderScheduler,
+  todoShape,
   registerTodoIpcHandlers,
   unregisterTodoIpcHandlers
 };
@@ -15,6 +22,9 @@ export {
 // Export a function to initialize the todo module
 export function initializeTodoModule(): void {
   registerTodoIpcHandlers();
+  shapeRegistry.register(todoShape);
+  todoService.startTrashPurge();
+  reminderScheduler.start();
 }
 
 export default {
@@ -0,0 +1,233 @@
+/**
+ * Reminder scheduler
+ * Shows native notifications when todo reminders come due
+ */
+import { BrowserWindow, Notification } from 'electron';
+import configService from '../../config';
+import { getLogger } from '../../logging';
+import { sqliteService } from '../../database';
+import { syncCoordinator } from '../../sync';
+import { todoService } from './todo.service';
+
+const logger = getLogger('ReminderScheduler');
+
+// Longest wait between two checks, so reminders changed by sync or clock changes are picked up
+const MAX_CHECK_INTERVAL = 60 * 1000;
+
+// Notification actions, in the order they are offered
+const SNOOZE_ACTION = 0;
+const COMPLETE_ACTION = 1;
+
+/**
+ * Todo with a reminder, as read for scheduling
+ */
+interface ReminderRow {
+  id: string;
+  title: string;
+  due_at: string;
+  remind_before: number;
+  notified_at: number | null;
+  snoozed_until: number | null;
+}
+
+/**
+ * Reminder scheduler class
+ * A reminder comes due remind_before minutes before due_at, or when its snooze ends.
+ * notified_at keeps the time of the last reminder shown, so each one is shown once, and
+ * reminders that came due while the app was closed are shown at the first check
+ */
+export class ReminderScheduler {
+  private timer: NodeJS.Timeout | null = null;
+  private snoozeMinutes: number;
+  
+  // Shown notifications, kept referenced so their event handlers aren't garbage collected
+  private notifications = new Map<string, Notification>();
+  
+  // Reminders moved by remote changes are picked up as soon as these are applied
+  private onDataChanged = (shapeName?: string): void => {
+    if (shapeName === undefined || shapeName === 'todos') {
+      this.reschedule();
+    }
+  };
+  
+  constructor() {
+    this.snoozeMinutes = configService.getOrDefault('REMINDER_SNOOZE_MINUTES', 10, 'number');
+  }
+  
+  /**
+   * Start checking for due reminders
+   */
+  public start(): void {
+    if (!Notification.isSupported()) {
+      logger.warn('Notifications are not supported, reminders are disabled');
+      return;
+    }
+    
+    logger.info('Starting reminder scheduler');
+    syncCoordinator.on('data-changed', this.onDataChanged);
+    this.check();
+  }
+  
+  /**
+   * Stop checking for due reminders
+   */
+  public stop(): void {
+    syncCoordinator.off('data-changed', this.onDataChanged);
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    
+    for (const notification of this.notifications.values()) {
+      notification.close();
+    }
+    this.notifications.clear();
+  }
+  
+  /**
+   * Snooze the reminder of a todo
+   * @param id Todo ID
+   * @returns True if successful, false otherwise
+   */
+  public snooze(id: string): boolean {
+    try {
+      const until = Date.now() + this.snoozeMinutes * 60 * 1000;
+      const result = sqliteService.execute('UPDATE todos SET snoozed_until = ? WHERE id = ?', [until, id]);
+      if (result.changes === 0) {
+        return false;
+      }
+      
+      logger.info(`Snoozed reminder of todo ${id} for ${this.snoozeMinutes} minutes`);
+      this.reschedule();
+      return true;
+    } catch (error) {
+      logger.error(`Error snoozing reminder of todo ${id}`, error);
+      return false;
+    }
+  }
+  
+  /**
+   * Check again right away, e.g. after a reminder was changed
+   */
+  public reschedule(): void {
+    if (this.timer) {
+      this.check();
+    }
+  }
+  
+  /**
+   * Show the reminders that are due and wait for the next one
+   */
+  private check(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+    
+    let next = Date.now() + MAX_CHECK_INTERVAL;
+    
+    try {
+      const now = Date.now();
+      const rows = sqliteService.queryAll<ReminderRow>(
+        `SELECT id, title, due_at, remind_before, notified_at, snoozed_until FROM todos
+         WHERE due_at IS NOT NULL AND remind_before IS NOT NULL AND completed = 0 AND deleted_at IS NULL`
+      );
+      
+      for (const row of rows) {
+        const remindAt = this.getRemindAt(row);
+        if (isNaN(remindAt) || remindAt === row.notified_at) {
+          continue;
+        }
+        
+        if (remindAt <= now) {
+          this.notify(row, remindAt);
+        } else {
+          next = Math.min(next, remindAt);
+        }
+      }
+    } catch (error) {
+      logger.error('Error checking reminders', error);
+    }
+    
+    this.timer = setTimeout(() => this.check(), Math.max(next - Date.now(), 0));
+    this.timer.unref();
+  }
+  
+  /**
+   * Get the time a reminder comes due
+   * @param row The todo
+   * @returns Time (ms), the end of its snooze if it is snoozed
+   */
+  private getRemindAt(row: ReminderRow): number {
+    return row.snoozed_until ?? Date.parse(row.due_at) - row.remind_before * 60 * 1000;
+  }
+  
+  /**
+   * Show the notification of a reminder and mark it as shown
+   * Snooze and complete are offered as actions where the platform supports them (macOS);
+   * clicking the notification brings the app to the front
+   * @param row The todo
+   * @param remindAt Time (ms) the reminder came due
+   */
+  private notify(row: ReminderRow, remindAt: number): void {
+    sqliteService.execute('UPDATE todos SET notified_at = ? WHERE id = ?', [remindAt, row.id]);
+    
+    const dueAt = new Date(row.due_at);
+    const overdue = dueAt.getTime() <= Date.now();
+    
+    logger.info(`Showing reminder of todo ${row.id}`);
+    
+    this.notifications.get(row.id)?.close();
+    
+    const notification = new Notification({
+      title: row.title,
+      body: `${overdue ? 'Was due' : 'Due'} ${dueAt.toLocaleString()}`,
+      actions: [
+        { type: 'button', text: `Snooze ${this.snoozeMinutes} min` },
+        { type: 'button', text: 'Complete' }
+      ]
+    });
+    
+    notification.on('action', (_, index) => {
+      if (index === SNOOZE_ACTION) {
+        this.snooze(row.id);
+      } else if (index === COMPLETE_ACTION) {
+        this.complete(row.id);
+      }
+    });
+    
+    notification.on('click', () => {
+      const mainWindow = BrowserWindow.getAllWindows()[0];
+      if (mainWindow) {
+        if (mainWindow.isMinimized()) mainWindow.restore();
+        mainWindow.focus();
+      }
+    });
+    
+    notification.on('close', () => {
+      if (this.notifications.get(row.id) === notification) {
+        this.notifications.delete(row.id);
+      }
+    });
+    
+    this.notifications.set(row.id, notification);
+    notification.show();
+  }
+  
+  /**
+   * Complete a todo from its reminder
+   * @param id Todo ID
+   */
+  private async complete(id: string): Promise<void> {
+    if (await todoService.toggleTodo(id, true)) {
+      const mainWindow = BrowserWindow.getAllWindows()[0];
+      if (mainWindow) {
+        mainWindow.webContents.send('todos-updated');
+      }
+    }
+  }
+}
+
+// Export as singleton
+export const reminderScheduler = new ReminderScheduler();
+export default reminderScheduler;
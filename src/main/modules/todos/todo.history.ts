@@ -0,0 +1,173 @@
+/**
+ * Todo history
+ * Keeps the undo and redo stacks of todo mutations in SQLite, so they survive window reloads
+ */
+import Database from 'better-sqlite3';
+import configService from '../../config';
+import { getLogger } from '../../logging';
+import { sqliteService } from '../../database';
+import type { Todo } from '../../../@types/todo';
+
+const logger = getLogger('TodoHistory');
+
+/**
+ * User action a history entry was recorded for
+ */
+export type TodoHistoryAction = 'add' | 'toggle' | 'delete' | 'restore' | 'edit' | 'move';
+
+/**
+ * Fields of a todo an action changes
+ */
+export type TodoChanges = Partial<Pick<Todo, 'title' | 'completed' | 'status' | 'priority' | 'deleted_at' | 'due_at' | 'remind_before' | 'list_id' | 'parent_id' | 'position'>>;
+
+/**
+ * Change an action made to another todo than its own, e.g. trashing the subtasks of a
+ * trashed todo
+ */
+export interface TodoCascadeChange {
+  todoId: string;
+  before: TodoChanges;
+  after: TodoChanges;
+}
+
+/**
+ * A recorded action with the values of the fields it changed before and after
+ */
+export interface TodoHistoryEntry {
+  id: number;
+  action: TodoHistoryAction;
+  todoId: string;
+  before: TodoChanges;
+  after: TodoChanges;
+  /** Changes made to other todos, undone and redone together with the action */
+  cascade: TodoCascadeChange[];
+  undone: boolean;
+  createdAt: number;
+}
+
+/**
+ * Row of the todo_history table
+ */
+interface TodoHistoryRow {
+  id: number;
+  action: TodoHistoryAction;
+  todo_id: string;
+  before: string;
+  after: string;
+  undone: number;
+  created_at: number;
+  cascade_changes: string;
+}
+
+/**
+ * Todo history class
+ * Entries not undone form the undo stack, newest on top; undone entries form the redo
+ * stack, oldest on top. Recording a new action drops the redo stack
+ */
+export class TodoHistory {
+  private limit: number;
+  
+  constructor() {
+    this.limit = configService.getOrDefault('TODO_HISTORY_LIMIT', 100, 'number');
+  }
+  
+  /**
+   * Record an action
+   * @param db Database instance of the transaction that writes the change
+   * @param action The action
+   * @param todoId Todo ID
+   * @param before Values of the changed fields before the action
+   * @param after Values of the changed fields after the action
+   * @param cascade Changes the action made to other todos
+   */
+  public record(
+    db: Database.Database,
+    action: TodoHistoryAction,
+    todoId: string,
+    before: TodoChanges,
+    after: TodoChanges,
+    cascade: TodoCascadeChange[] = []
+  ): void {
+    db.prepare('DELETE FROM todo_history WHERE undone = 1').run();
+    db.prepare(
+      'INSERT INTO todo_history (action, todo_id, before, after, undone, created_at, cascade_changes) VALUES (?, ?, ?, ?, 0, ?, ?)'
+    ).run(action, todoId, JSON.stringify(before), JSON.stringify(after), Date.now(), JSON.stringify(cascade));
+    
+    // Only the latest actions are kept
+    db.prepare(
+      'DELETE FROM todo_history WHERE id NOT IN (SELECT id FROM todo_history ORDER BY id DESC LIMIT ?)'
+    ).run(this.limit);
+    
+    logger.debug(`Recorded ${action} of todo ${todoId}`);
+  }
+  
+  /**
+   * Get the entry the next undo reverts
+   * @returns The entry, or undefined if there is nothing to undo
+   */
+  public getNextUndo(): TodoHistoryEntry | undefined {
+    const row = sqliteService.queryOne<TodoHistoryRow>(
+      'SELECT * FROM todo_history WHERE undone = 0 ORDER BY id DESC LIMIT 1'
+    );
+    return row ? this.toEntry(row) : undefined;
+  }
+  
+  /**
+   * Get the entry the next redo applies again
+   * @returns The entry, or undefined if there is nothing to redo
+   */
+  public getNextRedo(): TodoHistoryEntry | undefined {
+    const row = sqliteService.queryOne<TodoHistoryRow>(
+      'SELECT * FROM todo_history WHERE undone = 1 ORDER BY id ASC LIMIT 1'
+    );
+    return row ? this.toEntry(row) : undefined;
+  }
+  
+  /**
+   * Move an entry between the undo and redo stacks
+   * @param db Database instance of the transaction that writes the change
+   * @param id Entry ID
+   * @param undone True once the entry is undone, false once it is redone
+   */
+  public setUndone(db: Database.Database, id: number, undone: boolean): void {
+    db.prepare('UPDATE todo_history SET undone = ? WHERE id = ?').run(undone ? 1 : 0, id);
+  }
+  
+  /**
+   * Remove an entry that can't be undone or redone anymore
+   * @param id Entry ID
+   */
+  public remove(id: number): void {
+    sqliteService.execute('DELETE FROM todo_history WHERE id = ?', [id]);
+  }
+  
+  /**
+   * Forget the entries of a todo that is gone for good
+   * @param db Database instance of the transaction that deletes the todo
+   * @param todoId Todo ID
+   */
+  public forget(db: Database.Database, todoId: string): void {
+    db.prepare('DELETE FROM todo_history WHERE todo_id = ?').run(todoId);
+  }
+  
+  /**
+   * Convert a todo_history row
+   * @param row The row
+   */
+  private toEntry(row: TodoHistoryRow): TodoHistoryEntry {
+    return {
+      id: row.id,
+      action: row.action,
+      todoId: row.todo_id,
+      before: JSON.parse(row.before),
+      after: JSON.parse(row.after),
+      cascade: JSON.parse(row.cascade_changes),
+      undone: row.undone === 1,
+      createdAt: row.created_at
+    };
+  }
+}
+
+// Export as singleton
+export const todoHistory = new TodoHistory();
+export default todoHistory;
@@ -5,6 +5,7 @@
 import { ipcMain } from 'electron';
 import { getLogger } from '../../logging';
 import { todoService } from './todo.service';
+import { TodoFilter } from '../../../@types/todo';
 
 const logger = getLogger('TodoIPC');
 
@@ -15,15 +16,21 @@ export function registerTodoIpcHandlers(): void {
   logger.info('Registering todo IPC handlers');
   
   // Get all todos
-  ipcMain.handle('todos:getAll', async () => {
+  ipcMain.handle('todos:getAll', (_, filter?: TodoFilter) => {
     logger.debug('IPC: todos:getAll called');
-    return todoService.getAllTodos();
+    return todoService.getAllTodos(filter);
+  });
+  
+  // Sync, then get all todos
+  ipcMain.handle('todos:refresh', async (_, filter?: TodoFilter) => {
+    logger.debug('IPC: todos:refresh called');
+    return todoService.refreshTodos(filter);
   });
   
   // Add a new todo
-  ipcMain.handle('todos:add', async (_, title: string) => {
+  ipcMain.handle('todos:add', async (_, title: string, details?: unknown) => {
     logger.debug(`IPC: todos:add called with title: "${title}"`);
-    return todoService.addTodo(title);
+    return todoService.addTodo(title, details);
   });
   
   // Toggle todo completion
@@ -32,11 +39,47 @@ export function registerTodoIpcHandlers(): void {
     return todoService.toggleTodo(id, completed);
   });
   
+  // Update fields of a todo, rejects with a ValidationError for an invalid patch
+  ipcMain.handle('todos:update', async (_, id: string, patch: unknown) => {
+    logger.debug(`IPC: todos:update called for ${id}`);
+    return todoService.updateTodo(id, patch);
+  });
+  
+  // Move a todo, rejects with a ValidationError for an invalid placement
+  ipcMain.handle('todos:move', async (_, id: string, placement: unknown) => {
+    logger.debug(`IPC: todos:move called for ${id}`);
+    return todoService.moveTodo(id, placement);
+  });
+  
   // Delete a todo
   ipcMain.handle('todos:delete', async (_, id: string) => {
     logger.debug(`IPC: todos:delete called for ${id}`);
     return todoService.deleteTodo(id);
   });
+  
+  // Get the todos in the trash
+  ipcMain.handle('todos:getTrash', () => {
+    logger.debug('IPC: todos:getTrash called');
+    return todoService.getTrashedTodos();
+  });
+  
+  // Restore a todo from the trash
+  ipcMain.handle('todos:restore', async (_, id: string) => {
+    logger.debug(`IPC: todos:restore called for ${id}`);
+    return todoService.restoreTodo(id);
+  });
+  
+  // Undo the latest todo mutation
+  ipcMain.handle('todos:undo', async () => {
+    logger.debug('IPC: todos:undo called');
+    return todoService.undo();
+  });
+  
+  // Redo the latest undone todo mutation
+  ipcMain.handle('todos:redo', async () => {
+    logger.debug('IPC: todos:redo called');
+    return todoService.redo();
+  });
 }
 
 /**
@@ -46,7 +89,14 @@ export function unregisterTodoIpcHandlers(): void {
   logger.info('Unregistering todo IPC handlers');
   
   ipcMain.removeHandler('todos:getAll');
+  ipcMain.removeHandler('todos:refresh');
   ipcMain.removeHandler('todos:add');
   ipcMain.removeHandler('todos:toggle');
+  ipcMain.removeHandler('todos:update');
+  ipcMain.removeHandler('todos:move');
   ipcMain.removeHandler('todos:delete');
+  ipcMain.removeHandler('todos:getTrash');
+  ipcMain.removeHandler('todos:restore');
+  ipcMain.removeHandler('todos:undo');
+  ipcMain.removeHandler('todos:redo');
 }
\ No newline at end of file
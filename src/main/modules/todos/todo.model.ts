@@ -2,7 +2,27 @@
  * Todo model
  * Defines the data structure for a Todo item
  */
-import { Todo } from '../../../@types/todo';
+import { Todo, TodoPatch, TodoPlacement, TodoPriority, TodoStatus } from '../../../@types/todo';
+import { Tag } from '../../../@types/tag';
+import { parseFieldVersions } from '../../sync/conflict';
+import { ValidationError } from '../../error/app.error';
+
+// Fields of a todo the user can change, each with its own version
+const VERSIONED_FIELDS = [
+  'title', 'completed', 'status', 'priority', 'created_at', 'deleted_at', 'due_at', 'remind_before', 'list_id', 'parent_id', 'position'
+] as const;
+
+// Statuses of the workflow, in order
+const STATUSES: readonly TodoStatus[] = ['backlog', 'todo', 'in_progress', 'done'];
+
+// Priorities, from low to urgent
+const PRIORITIES: readonly TodoPriority[] = ['low', 'medium', 'high', 'urgent'];
+
+// Longest title accepted, in characters
+const MAX_TITLE_LENGTH = 500;
+
+// Longest reminder offset accepted, in minutes (30 days)
+const MAX_REMIND_BEFORE = 30 * 24 * 60;
 
 /**
  * Todo model with methods for validation and conversion
@@ -13,7 +33,7 @@ export class TodoModel {
    * @param id UUID for the todo
    * @param title Title of the todo
    * @param completed Whether the todo is completed
-   * @param created_at Creation timestamp
+   * @param created_at Creation timestamp, also the version of every field
    * @returns A new Todo object
    */
   public static create(
@@ -22,14 +42,56 @@ export class TodoModel {
     completed: boolean | number = false, 
     created_at: string = new Date().toISOString()
   ): Todo {
+    const version = Date.parse(created_at);
     return {
       id,
       title,
       completed: typeof completed === 'boolean' ? completed : Boolean(completed),
-      created_at
+      status: completed ? 'done' : 'todo',
+      priority: null,
+      created_at,
+      deleted_at: null,
+      due_at: null,
+      remind_before: null,
+      list_id: null,
+      parent_id: null,
+      position: null,
+      updated_at: created_at,
+      field_versions: Object.fromEntries(VERSIONED_FIELDS.map(field => [field, version]))
+    };
+  }
+  
+  /**
+   * Create a patch of changed fields, stamped with a new version for each of them
+   * @param changes The changed fields
+   * @param version Time (ms) of the change
+   * @returns The changes, with updated_at and the field versions they set
+   */
+  public static createPatch(changes: Partial<Todo>, version: number = Date.now()): Partial<Todo> {
+    const fields = Object.keys(changes).filter(field => (VERSIONED_FIELDS as readonly string[]).includes(field));
+    return {
+      ...changes,
+      updated_at: new Date(version).toISOString(),
+      field_versions: Object.fromEntries(fields.map(field => [field, version]))
     };
   }
   
+  /**
+   * Keep completed and status of some changes in step: a status sets completed (done is
+   * completed), and completed alone sets the status to done or back to todo
+   * @param changes The changed fields
+   * @returns The changes, with the other field of the pair added
+   */
+  public static withStatus<T extends Partial<Pick<Todo, 'completed' | 'status'>>>(changes: T): T {
+    if (changes.status !== undefined) {
+      return { ...changes, completed: changes.status === 'done' };
+    }
+    if (changes.completed !== undefined) {
+      return { ...changes, status: changes.completed ? 'done' : 'todo' };
+    }
+    return changes;
+  }
+  
   /**
    * Normalize a Todo object to ensure consistent types
    * @param todo Todo object to normalize
@@ -40,7 +102,17 @@ export class TodoModel {
       id: todo.id,
       title: todo.title || '',
       completed: typeof todo.completed === 'boolean' ? todo.completed : Boolean(todo.completed),
-      created_at: todo.created_at || new Date().toISOString()
+      status: todo.status ?? (todo.completed ? 'done' : 'todo'),
+      priority: todo.priority ?? null,
+      created_at: todo.created_at || new Date().toISOString(),
+      deleted_at: todo.deleted_at ?? null,
+      due_at: todo.due_at ?? null,
+      remind_before: todo.remind_before ?? null,
+      list_id: todo.list_id ?? null,
+      parent_id: todo.parent_id ?? null,
+      position: todo.position ?? null,
+      updated_at: todo.updated_at,
+      field_versions: todo.field_versions ?? {}
     };
   }
   
@@ -54,7 +126,17 @@ export class TodoModel {
       id: todo.id,
       title: todo.title,
       completed: typeof todo.completed === 'boolean' ? (todo.completed ? 1 : 0) : todo.completed,
-      created_at: todo.created_at
+      status: todo.status,
+      priority: todo.priority ?? null,
+      created_at: todo.created_at,
+      deleted_at: todo.deleted_at ?? null,
+      due_at: todo.due_at ?? null,
+      remind_before: todo.remind_before ?? null,
+      list_id: todo.list_id ?? null,
+      parent_id: todo.parent_id ?? null,
+      position: todo.position ?? null,
+      updated_at: todo.updated_at ?? null,
+      field_versions: JSON.stringify(todo.field_versions ?? {})
     };
   }
   
@@ -64,12 +146,158 @@ export class TodoModel {
    * @returns Todo object
    */
   public static fromDbModel(record: any): Todo {
-    return {
+    const todo: Todo = {
       id: record.id,
       title: record.title,
       completed: record.completed === 1 || record.completed === true,
-      created_at: record.created_at
+      status: record.status ?? (record.completed ? 'done' : 'todo'),
+      priority: record.priority ?? null,
+      created_at: record.created_at,
+      deleted_at: record.deleted_at ?? null,
+      due_at: record.due_at ?? null,
+      remind_before: record.remind_before ?? null,
+      list_id: record.list_id ?? null,
+      parent_id: record.parent_id ?? null,
+      position: record.position ?? null,
+      updated_at: record.updated_at ?? undefined,
+      field_versions: parseFieldVersions(record.field_versions)
     };
+    
+    // Present when the record was read together with its tags
+    if (record.tags !== undefined) {
+      todo.tags = (JSON.parse(record.tags) as Tag[])
+        .sort((a, b) => a.name.localeCompare(b.name, undefined, { sensitivity: 'base' }));
+    }
+    
+    // Present when the record was read together with its subtasks
+    if (record.subtask_count !== undefined) {
+      todo.subtask_count = record.subtask_count;
+      todo.subtask_done = record.subtask_done ?? 0;
+    }
+    
+    // Present when the record was read together with its outbox state
+    if (record.sync_state !== undefined) {
+      todo.sync_state = record.sync_state;
+      todo.sync_error = record.sync_error ?? null;
+    }
+    
+    return todo;
+  }
+  
+  /**
+   * Validate a patch from outside the main process
+   * Only title, completed, status, priority, the due date, the reminder, the list and the
+   * parent can be changed this way; trashing goes through delete and restore. Whether the list
+   * and the parent exist is up to the caller
+   * @param patch The patch to validate
+   * @returns The patch, with the title trimmed
+   * @throws ValidationError if the patch is not an object, has unknown fields, no fields,
+   * invalid values, or a completed that disagrees with its status
+   */
+  public static validatePatch(patch: unknown): TodoPatch {
+    if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+      throw new ValidationError('Todo patch must be an object');
+    }
+    
+    const values = patch as Record<string, unknown>;
+    const validated: TodoPatch = {};
+    
+    for (const field of Object.keys(values)) {
+      const value = values[field];
+      if (field === 'title') {
+        if (typeof value !== 'string') {
+          throw new ValidationError('Title must be a string', field);
+        }
+        const title = value.trim();
+        if (title.length === 0) {
+          throw new ValidationError('Title must not be empty', field);
+        }
+        if (title.length > MAX_TITLE_LENGTH) {
+          throw new ValidationError(`Title must be at most ${MAX_TITLE_LENGTH} characters`, field);
+        }
+        validated.title = title;
+      } else if (field === 'completed') {
+        if (typeof value !== 'boolean') {
+          throw new ValidationError('Completed must be a boolean', field);
+        }
+        validated.completed = value;
+      } else if (field === 'status') {
+        if (!STATUSES.includes(value as TodoStatus)) {
+          throw new ValidationError(`Status must be one of ${STATUSES.join(', ')}`, field);
+        }
+        validated.status = value as TodoStatus;
+      } else if (field === 'priority') {
+        if (value !== null && !PRIORITIES.includes(value as TodoPriority)) {
+          throw new ValidationError(`Priority must be null or one of ${PRIORITIES.join(', ')}`, field);
+        }
+        validated.priority = value as TodoPriority | null;
+      } else if (field === 'due_at') {
+        if (value === null) {
+          validated.due_at = null;
+        } else if (typeof value === 'string' && !isNaN(Date.parse(value))) {
+          validated.due_at = new Date(value).toISOString();
+        } else {
+          throw new ValidationError('Due date must be a date string or null', field);
+        }
+      } else if (field === 'remind_before') {
+        if (value !== null && !(Number.isInteger(value) && (value as number) >= 0 && (value as number) <= MAX_REMIND_BEFORE)) {
+          throw new ValidationError(`Reminder must be null or 0 to ${MAX_REMIND_BEFORE} minutes before the due date`, field);
+        }
+        validated.remind_before = value as number | null;
+      } else if (field === 'list_id') {
+        if (value !== null && (typeof value !== 'string' || value.length === 0)) {
+          throw new ValidationError('List must be a list id or null', field);
+        }
+        validated.list_id = value as string | null;
+      } else if (field === 'parent_id') {
+        if (value !== null && (typeof value !== 'string' || value.length === 0)) {
+          throw new ValidationError('Parent must be a todo id or null', field);
+        }
+        validated.parent_id = value as string | null;
+      } else {
+        throw new ValidationError(`Field ${field} can't be updated`, field);
+      }
+    }
+    
+    if (Object.keys(validated).length === 0) {
+      throw new ValidationError('Todo patch has no fields to update');
+    }
+    
+    if (validated.status !== undefined && validated.completed !== undefined &&
+      validated.completed !== (validated.status === 'done')) {
+      throw new ValidationError('Completed must match the status, only done todos are completed', 'completed');
+    }
+    
+    return validated;
+  }
+  
+  /**
+   * Validate where to move a todo, from outside the main process
+   * Whether the parent and the sibling exist is up to the caller
+   * @param placement The placement to validate
+   * @returns The placement
+   * @throws ValidationError if the placement is not an object, has unknown fields or invalid values
+   */
+  public static validatePlacement(placement: unknown): TodoPlacement {
+    if (typeof placement !== 'object' || placement === null || Array.isArray(placement)) {
+      throw new ValidationError('Todo placement must be an object');
+    }
+    
+    const values = placement as Record<string, unknown>;
+    const validated: TodoPlacement = {};
+    
+    for (const field of Object.keys(values)) {
+      const value = values[field];
+      if (field !== 'parent_id' && field !== 'before') {
+        throw new ValidationError(`Field ${field} is not part of a placement`, field);
+      }
+      if (value !== null && (typeof value !== 'string' || value.length === 0)) {
+        throw new ValidationError(`${field === 'before' ? 'Sibling' : 'Parent'} must be a todo id or null`, field);
+      }
+      validated[field] = value as string | null;
+    }
+    
+    return validated;
   }
   
   /**
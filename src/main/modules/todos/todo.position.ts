@@ -0,0 +1,244 @@
+/**
+ * Todo positions
+ * Fractional indexes ordering todos among their siblings, so positions compare as plain
+ * strings and there is always room for another one between two of them: moving a todo
+ * rewrites its own position only.
+ * A position is an integer part followed by a fraction. The integer part is a head letter
+ * giving its length, a-z for 1 to 26 base-62 digits and Z-A for the same lengths below zero,
+ * then its digits; going past the first or last sibling steps the integer, so keys only grow
+ * by one digit every time the count of digits runs out. Only putting a todo between two
+ * others can need a fraction, which grows by a digit every few moves into the same gap
+ */
+
+// Digits of a position, in ASCII order so positions sort with SQLite's BINARY collation
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz';
+
+// The lowest integer part, nothing can go before it without a fraction
+const SMALLEST_INTEGER = 'A' + '0'.repeat(26);
+
+/**
+ * Get a position between two others
+ * @param before The position to follow, null for the start
+ * @param after The position to precede, null for the end
+ * @returns The new position
+ * @throws Error if a position is malformed or before isn't lower than after
+ */
+export function positionBetween(before: string | null, after: string | null): string {
+  if (before !== null) {
+    validatePosition(before);
+  }
+  if (after !== null) {
+    validatePosition(after);
+  }
+  if (before !== null && after !== null && before >= after) {
+    throw new Error(`Position ${before} is not before ${after}`);
+  }
+  
+  if (before === null) {
+    if (after === null) {
+      return 'a0';
+    }
+    
+    const integer = getIntegerPart(after);
+    if (integer === SMALLEST_INTEGER) {
+      return integer + midpoint('', after.slice(integer.length));
+    }
+    // Dropping the fraction is enough to go before it
+    if (integer < after) {
+      return integer;
+    }
+    return decrementInteger(integer) as string;
+  }
+  
+  const integer = getIntegerPart(before);
+  const fraction = before.slice(integer.length);
+  if (after === null) {
+    return incrementInteger(integer) ?? integer + midpoint(fraction, null);
+  }
+  
+  if (integer === getIntegerPart(after)) {
+    return integer + midpoint(fraction, after.slice(integer.length));
+  }
+  const next = incrementInteger(integer) as string;
+  return next < after ? next : integer + midpoint(fraction, null);
+}
+
+/**
+ * Get evenly spread positions between two others
+ * @param before The position to follow, null for the start
+ * @param after The position to precede, null for the end
+ * @param count How many positions to get
+ * @returns The new positions, in order
+ * @throws Error if a position is malformed or before isn't lower than after
+ */
+export function positionsBetween(before: string | null, after: string | null, count: number): string[] {
+  if (count <= 0) {
+    return [];
+  }
+  if (count === 1) {
+    return [positionBetween(before, after)];
+  }
+  
+  // Past the first or last position, step the integer part
+  if (after === null) {
+    const positions: string[] = [];
+    let position = before;
+    for (let i = 0; i < count; i++) {
+      position = positionBetween(position, null);
+      positions.push(position);
+    }
+    return positions;
+  }
+  if (before === null) {
+    const positions: string[] = [];
+    let position: string = after;
+    for (let i = 0; i < count; i++) {
+      position = positionBetween(null, position);
+      positions.unshift(position);
+    }
+    return positions;
+  }
+  
+  const half = Math.floor(count / 2);
+  const middle = positionBetween(before, after);
+  return [
+    ...positionsBetween(before, middle, half),
+    middle,
+    ...positionsBetween(middle, after, count - half - 1)
+  ];
+}
+
+/**
+ * Check a position is well formed
+ * @param position The position
+ * @throws Error if it isn't
+ */
+function validatePosition(position: string): void {
+  if (position === SMALLEST_INTEGER) {
+    throw new Error(`Position ${position} is out of range`);
+  }
+  const integer = getIntegerPart(position);
+  if (position.length > integer.length && position.endsWith('0')) {
+    throw new Error(`Position ${position} ends with a zero`);
+  }
+}
+
+/**
+ * Get the integer part of a position, head letter included
+ * @param position The position
+ * @throws Error if the head letter isn't one or the position is too short for it
+ */
+function getIntegerPart(position: string): string {
+  const head = position[0] ?? '';
+  let length: number;
+  if (head >= 'a' && head <= 'z') {
+    length = head.charCodeAt(0) - 'a'.charCodeAt(0) + 2;
+  } else if (head >= 'A' && head <= 'Z') {
+    length = 'Z'.charCodeAt(0) - head.charCodeAt(0) + 2;
+  } else {
+    throw new Error(`Position ${position} has no valid head`);
+  }
+  if (position.length < length) {
+    throw new Error(`Position ${position} is shorter than its head says`);
+  }
+  return position.slice(0, length);
+}
+
+/**
+ * Get the next integer
+ * @param integer Integer part, head letter included
+ * @returns The next integer part, null past the highest one
+ */
+function incrementInteger(integer: string): string | null {
+  const head = integer[0];
+  const digits = integer.slice(1).split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) + 1;
+    if (digit < DIGITS.length) {
+      digits[i] = DIGITS[digit];
+      return head + digits.join('');
+    }
+    digits[i] = '0';
+  }
+  
+  // All digits carried over, the integer takes one digit more, or one less below zero
+  if (head === 'Z') {
+    return 'a0';
+  }
+  if (head === 'z') {
+    return null;
+  }
+  const nextHead = String.fromCharCode(head.charCodeAt(0) + 1);
+  if (nextHead > 'a') {
+    digits.push('0');
+  } else {
+    digits.pop();
+  }
+  return nextHead + digits.join('');
+}
+
+/**
+ * Get the previous integer
+ * @param integer Integer part, head letter included
+ * @returns The previous integer part, null below the lowest one
+ */
+function decrementInteger(integer: string): string | null {
+  const head = integer[0];
+  const digits = integer.slice(1).split('');
+  for (let i = digits.length - 1; i >= 0; i--) {
+    const digit = DIGITS.indexOf(digits[i]) - 1;
+    if (digit >= 0) {
+      digits[i] = DIGITS[digit];
+      return head + digits.join('');
+    }
+    digits[i] = DIGITS[DIGITS.length - 1];
+  }
+  
+  // All digits borrowed, the integer takes one digit less, or one more below zero
+  if (head === 'a') {
+    return 'Z' + DIGITS[DIGITS.length - 1];
+  }
+  if (head === 'A') {
+    return null;
+  }
+  const previousHead = String.fromCharCode(head.charCodeAt(0) - 1);
+  if (previousHead < 'Z') {
+    digits.push(DIGITS[DIGITS.length - 1]);
+  } else {
+    digits.pop();
+  }
+  return previousHead + digits.join('');
+}
+
+/**
+ * Get the shortest fraction between two others
+ * Neither of them ends with a zero, and neither does the result, so every position has a
+ * single spelling
+ * @param a The lower fraction, '' for 0
+ * @param b The higher fraction, null for 1
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    // Skip the common prefix, a is padded with zeros
+    let n = 0;
+    while ((a[n] ?? '0') === b[n]) {
+      n++;
+    }
+    if (n > 0) {
+      return b.slice(0, n) + midpoint(a.slice(n), b.slice(n));
+    }
+  }
+  
+  // The first digits differ
+  const digitA = a ? DIGITS.indexOf(a[0]) : 0;
+  const digitB = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length;
+  if (digitB - digitA > 1) {
+    return DIGITS[Math.round((digitA + digitB) / 2)];
+  }
+  
+  // The first digits are consecutive
+  if (b !== null && b.length > 1) {
+    return b.slice(0, 1);
+  }
+  return DIGITS[digitA] + midpoint(a.slice(1), null);
+}
@@ -3,41 +3,129 @@
  * Contains the business logic for todos
  */
 import * as crypto from 'crypto';
+import Database from 'better-sqlite3';
+import configService from '../../config';
 import { getLogger } from '../../logging';
 import { sqliteService } from '../../database';
 import { syncCoordinator } from '../../sync';
-import { supabaseService } from '../../sync/supabase';
 import { offlineStorageService } from '../../sync/offline';
 import { TodoModel } from './todo.model';
-import { Todo } from '../../../@types/todo';
+import { todoHistory, TodoChanges, TodoCascadeChange, TodoHistoryAction, TodoHistoryEntry } from './todo.history';
+import { positionBetween, positionsBetween } from './todo.position';
+import { reminderScheduler } from './reminder.scheduler';
+import { tagService } from '../tags/tag.service';
+import { parseFieldVersions } from '../../sync/conflict';
+import { ValidationError } from '../../error/app.error';
+import { Todo, TodoPatch, TodoFilter, TodoPriority, TodoStatus } from '../../../@types/todo';
+import { SyncConflict } from '../../../@types/conflict';
 
 const logger = getLogger('TodoService');
 
+// Todos with their sync state, derived from the conflict inbox, the outbox and its dead letters,
+// their tags as a JSON array and the number of their subtasks, so a list of todos is read in one query
+const SELECT_TODOS_WITH_SYNC_STATE = `
+  SELECT t.*,
+    CASE
+      WHEN EXISTS (SELECT 1 FROM sync_conflicts c WHERE c.table_name = 'todos' AND c.row_id = t.id) THEN 'conflicted'
+      WHEN EXISTS (SELECT 1 FROM outbox_dead_letters d WHERE d.table_name = 'todos' AND d.row_id = t.id) THEN 'failed'
+      WHEN EXISTS (SELECT 1 FROM outbox o WHERE o.table_name = 'todos' AND o.row_id = t.id) THEN 'pending'
+      ELSE 'synced'
+    END AS sync_state,
+    COALESCE(
+      (SELECT d.error FROM outbox_dead_letters d WHERE d.table_name = 'todos' AND d.row_id = t.id ORDER BY d.id DESC LIMIT 1),
+      (SELECT o.last_error FROM outbox o WHERE o.table_name = 'todos' AND o.row_id = t.id AND o.last_error IS NOT NULL ORDER BY o.id DESC LIMIT 1)
+    ) AS sync_error,
+    (SELECT json_group_array(json_object('id', g.id, 'name', g.name))
+      FROM todo_tags tt JOIN tags g ON g.id = tt.tag_id WHERE tt.todo_id = t.id) AS tags,
+    (SELECT COUNT(*) FROM todos s WHERE s.parent_id = t.id AND s.deleted_at IS NULL) AS subtask_count,
+    (SELECT COUNT(*) FROM todos s WHERE s.parent_id = t.id AND s.deleted_at IS NULL AND s.completed = 1) AS subtask_done
+  FROM todos t
+`;
+
+// Subtasks of a todo at any depth; UNION stops at todos already seen, should the tree have a cycle
+const SELECT_SUBTASKS = `
+  WITH RECURSIVE subtree(id) AS (
+    SELECT id FROM todos WHERE parent_id = ?
+    UNION
+    SELECT t.id FROM todos t JOIN subtree s ON t.parent_id = s.id
+  )
+  SELECT t.id, t.completed, t.deleted_at FROM todos t JOIN subtree s ON s.id = t.id WHERE t.id != ?
+`;
+
+// Parents of a todo up to the top level
+const SELECT_ANCESTORS = `
+  WITH RECURSIVE ancestors(id) AS (
+    SELECT parent_id FROM todos WHERE id = ? AND parent_id IS NOT NULL
+    UNION
+    SELECT t.parent_id FROM todos t JOIN ancestors a ON t.id = a.id WHERE t.parent_id IS NOT NULL
+  )
+  SELECT t.id, t.completed, t.deleted_at FROM todos t JOIN ancestors a ON a.id = t.id WHERE t.id != ?
+`;
+
+/**
+ * A todo related to the one an action is applied to, as read for cascading
+ */
+interface RelatedTodo {
+  id: string;
+  completed: number;
+  deleted_at: string | null;
+}
+
+// How often trashed todos past their retention are purged, and the delay of the first purge
+const TRASH_PURGE_INTERVAL = 60 * 60 * 1000;
+const TRASH_PURGE_DELAY = 60 * 1000;
+
+// Longest position a move gives a todo; past it the siblings around the todo are respaced,
+// starting with this many on each side and doubling until their new positions are short enough
+const MAX_POSITION_LENGTH = 24;
+const RESPACE_RADIUS = 8;
+
+// Fields that decide whether and when the reminder of a todo comes due
+const REMINDER_FIELDS = ['due_at', 'remind_before', 'completed', 'deleted_at'] as const;
+
 /**
  * Todo service class
  */
 export class TodoService {
+  private trashRetentionDays: number;
+  private trashPurgeTimer: NodeJS.Timeout | null = null;
+  
+  constructor() {
+    this.trashRetentionDays = configService.getOrDefault('TRASH_RETENTION_DAYS', 30, 'number');
+  }
+  
   /**
-   * Get all todos
+   * Get all todos, in their order (see moveTodo); ties, from todos put at the same place on two
+   * devices, go by ID so every device shows the same order
+   * Served from SQLite only; the sync engine keeps it fresh and tells the renderer when it changes
+   * Trashed todos are left out, see getTrashedTodos
+   * @param filter Which todos to get, all when empty; list_id null is the inbox (todos
+   *   without a list)
    * @returns Array of todos
    */
-  public async getAllTodos(): Promise<Todo[]> {
+  public getAllTodos(filter: TodoFilter = {}): Todo[] {
     try {
-      logger.info('Getting all todos');
+      logger.info(`Getting all todos${Object.keys(filter).length > 0 ? ` matching ${JSON.stringify(filter)}` : ''}`);
       
-      // Try to sync first if online
-      if (syncCoordinator.getStatus() === 'online') {
-        try {
-          await syncCoordinator.syncWithSupabase();
-        } catch (error) {
-          logger.error('Error syncing before getting todos', error);
-          // Continue with local data even if sync fails
-        }
+      const conditions = ['t.deleted_at IS NULL'];
+      const params: any[] = [];
+      if (filter.list_id === null) {
+        conditions.push('t.list_id IS NULL');
+      } else if (filter.list_id !== undefined) {
+        conditions.push('t.list_id = ?');
+        params.push(filter.list_id);
+      }
+      if (filter.tag !== undefined) {
+        conditions.push(
+          'EXISTS (SELECT 1 FROM todo_tags tt JOIN tags g ON g.id = tt.tag_id WHERE tt.todo_id = t.id AND g.name = ? COLLATE NOCASE)'
+        );
+        params.push(filter.tag);
       }
       
       // Get todos from database
       const todos = sqliteService.queryAll<Todo>(
-        'SELECT * FROM todos ORDER BY created_at DESC'
+        `${SELECT_TODOS_WITH_SYNC_STATE} WHERE ${conditions.join(' AND ')} ORDER BY t.position, t.id`,
+        params
       );
       
       // Convert to Todo model instances
@@ -48,6 +136,47 @@ export class TodoService {
     }
   }
   
+  /**
+   * Get the todos in the trash
+   * @returns Array of trashed todos, most recently deleted first
+   */
+  public getTrashedTodos(): Todo[] {
+    try {
+      logger.info('Getting trashed todos');
+      
+      const todos = sqliteService.queryAll<Todo>(
+        `${SELECT_TODOS_WITH_SYNC_STATE} WHERE t.deleted_at IS NOT NULL ORDER BY t.deleted_at DESC`
+      );
+      
+      return todos.map(todo => TodoModel.fromDbModel(todo));
+    } catch (error) {
+      logger.error('Error getting trashed todos', error);
+      return [];
+    }
+  }
+  
+  /**
+   * Sync, then get all todos
+   * For callers that need to wait for remote changes; falls back to local data when offline
+   * or when the sync fails
+   * @param filter Which todos to get, see getAllTodos
+   * @returns Array of todos
+   */
+  public async refreshTodos(filter: TodoFilter = {}): Promise<Todo[]> {
+    logger.info('Refreshing todos');
+    
+    if (syncCoordinator.getStatus() !== 'offline') {
+      try {
+        await syncCoordinator.refresh();
+      } catch (error) {
+        logger.error('Error syncing before refreshing todos', error);
+        // Continue with local data even if sync fails
+      }
+    }
+    
+    return this.getAllTodos(filter);
+  }
+  
   /**
    * Get a todo by ID
    * @param id Todo ID
@@ -58,7 +187,7 @@ export class TodoService {
       logger.info(`Getting todo by ID: ${id}`);
       
       const todo = sqliteService.queryOne<Todo>(
-        'SELECT * FROM todos WHERE id = ?',
+        `${SELECT_TODOS_WITH_SYNC_STATE} WHERE t.id = ?`,
         [id]
       );
       
@@ -72,63 +201,70 @@ export class TodoService {
   /**
    * Add a new todo
    * @param title Todo title
+   * @param details Due date, reminder, list and parent of the todo, validated like an update;
+   *   a subtask goes in the list of its parent unless another one is given. The todo goes first
+   *   among its siblings
    * @returns The newly created todo or null if failed
+   * @throws ValidationError if the details are invalid, or the list or the parent don't exist
    */
-  public async addTodo(title: string): Promise<Todo | null> {
+  public async addTodo(title: string, details?: unknown): Promise<Todo | null> {
+    const patch: TodoPatch = details ? TodoModel.validatePatch(details) : {};
+    const { status = 'todo', priority = null, due_at = null, remind_before = null, parent_id = null } = patch;
+    const parent = parent_id ? this.getParent(parent_id) : undefined;
+    const list_id = patch.list_id !== undefined ? patch.list_id : parent?.list_id ?? null;
+    this.assertListExists(list_id);
+    
     try {
       // Generate UUID for the new todo
       const id = crypto.randomUUID();
       const created_at = new Date().toISOString();
+      const first = sqliteService.queryOne<{ position: string | null }>(
+        'SELECT MIN(position) AS position FROM todos WHERE parent_id IS ? AND deleted_at IS NULL',
+        [parent_id]
+      );
+      const position = positionBetween(null, first?.position ?? null);
       
       // Create a new todo with the Model
-      const newTodo = TodoModel.create(id, title, false, created_at);
+      const newTodo = {
+        ...TodoModel.create(id, title, status === 'done', created_at),
+        status, priority, due_at, remind_before, list_id, parent_id, position
+      };
       
       logger.info(`Adding new todo: ${id} - "${title}"`);
       
-      // Insert into local database
-      sqliteService.execute(
-        'INSERT INTO todos (id, title, completed, created_at) VALUES (?, ?, ?, ?)',
-        [
-          newTodo.id,
-          newTodo.title,
-          TodoModel.toDbModel(newTodo).completed,
-          newTodo.created_at
-        ]
-      );
+      // Insert into local database together with its outbox entry
+      const operation = sqliteService.transaction(db => {
+        const record = TodoModel.toDbModel(newTodo);
+        db.prepare(
+          `INSERT INTO todos (id, title, completed, status, priority, created_at, due_at, remind_before, list_id, parent_id, position, updated_at, field_versions)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        ).run(
+          record.id,
+          record.title,
+          record.completed,
+          record.status,
+          record.priority,
+          record.created_at,
+          record.due_at,
+          record.remind_before,
+          record.list_id,
+          record.parent_id,
+          record.position,
+          record.updated_at,
+          record.field_versions
+        );
+        
+        // Undoing the add moves the todo to the trash
+        todoHistory.record(db, 'add', id, { deleted_at: created_at }, { deleted_at: null });
+        
+        return offlineStorageService.addPendingOperation('todos', 'create', id, newTodo, db);
+      });
       
-      // Check if we're online by testing Supabase connection
-      let isOnline = false;
-      try {
-        isOnline = await supabaseService.checkConnection();
-      } catch (err) {
-        logger.error('Supabase connection check error', err);
-        isOnline = false;
+      if (operation) {
+        syncCoordinator.requestOutboxPush();
       }
-      
-      // Sync with Supabase if online
-      if (isOnline) {
-        try {
-          logger.info(`Adding todo directly to Supabase: ${id}`);
-          const success = await supabaseService.createTodo(newTodo);
-          
-          if (!success) {
-            logger.error(`Supabase insert failed for todo: ${id}`);
-            
-            // Store as pending operation
-            offlineStorageService.addPendingOperation('create', id, newTodo);
-          } else {
-            logger.debug(`Todo added to Supabase successfully: ${id}`);
-          }
-        } catch (syncError) {
-          logger.error(`Error adding to Supabase: ${id}`, syncError);
-          
-          // Store as pending operation
-          offlineStorageService.addPendingOperation('create', id, newTodo);
-        }
-      } else {
-        logger.info('Offline, storing pending operation');
-        // Store as pending operation if offline
-        offlineStorageService.addPendingOperation('create', id, newTodo);
+      if (due_at && remind_before !== null) {
+        reminderScheduler.reschedule();
       }
       
       return newTodo;
@@ -140,136 +276,793 @@ export class TodoService {
   
   /**
    * Toggle a todo's completion status
+   * Completing a todo marks it done, reopening it puts it back to todo. Completing a todo
+   * completes its subtasks, reopening it reopens its parents
    * @param id Todo ID
    * @param completed New completion status
    * @returns True if successful, false otherwise
    */
   public async toggleTodo(id: string, completed: boolean): Promise<boolean> {
+    logger.info(`Toggling todo ${id} to ${completed ? 'completed' : 'incomplete'}`);
+    return this.updateFields(id, { completed }, 'toggle');
+  }
+  
+  /**
+   * Update fields of a todo
+   * @param id Todo ID
+   * @param patch The changed fields, validated by TodoModel.validatePatch
+   * @returns The updated todo, or null if it wasn't found or the update failed
+   * @throws ValidationError if the patch is invalid, moves the todo to a list that doesn't
+   *   exist, or under a todo that doesn't exist or is one of its own subtasks
+   */
+  public async updateTodo(id: string, patch: unknown): Promise<Todo | null> {
+    const changes: TodoPatch = TodoModel.validatePatch(patch);
+    this.assertListExists(changes.list_id);
+    if (changes.parent_id) {
+      this.getParent(changes.parent_id);
+      if (this.isSelfOrAncestor(sqliteService.getDbInstance(), id, changes.parent_id)) {
+        throw new ValidationError("A todo can't be moved under itself or one of its subtasks", 'parent_id');
+      }
+    }
+    
+    logger.info(`Updating todo ${id} (${Object.keys(changes).join(', ')})`);
+    
+    if (!this.updateFields(id, changes, 'edit')) {
+      return null;
+    }
+    
+    return this.getTodoById(id) ?? null;
+  }
+  
+  /**
+   * Move a todo among its siblings, or under another parent
+   * Only the moved todo gets a new position, between its new neighbours, so moves of other
+   * todos made meanwhile on another device merge untouched
+   * @param id Todo ID
+   * @param placement Where to put the todo, validated by TodoModel.validatePlacement
+   * @returns The moved todo, or null if it wasn't found or the move failed
+   * @throws ValidationError if the placement is invalid, the parent doesn't exist or is the
+   *   todo itself or one of its subtasks, or the sibling isn't under the parent
+   */
+  public async moveTodo(id: string, placement: unknown): Promise<Todo | null> {
+    const { parent_id, before = null } = TodoModel.validatePlacement(placement);
+    
+    const current = sqliteService.queryOne<Pick<Todo, 'parent_id'>>('SELECT parent_id FROM todos WHERE id = ?', [id]);
+    if (!current) {
+      logger.warn(`Todo with id ${id} not found for move`);
+      return null;
+    }
+    
+    const currentParentId = current.parent_id ?? null;
+    const parentId = parent_id === undefined ? currentParentId : parent_id;
+    if (parentId && parentId !== currentParentId) {
+      this.getParent(parentId);
+      if (this.isSelfOrAncestor(sqliteService.getDbInstance(), id, parentId)) {
+        throw new ValidationError("A todo can't be moved under itself or one of its subtasks", 'parent_id');
+      }
+    }
+    
+    // Put before itself, it stays where it is
+    if (before === id && parentId === currentParentId) {
+      return this.getTodoById(id) ?? null;
+    }
+    
+    logger.info(`Moving todo ${id} ${before ? `before ${before}` : 'to the end'} under ${parentId ?? 'the top level'}`);
+    
+    const position = sqliteService.transaction(db => this.getPositionBefore(db, id, parentId, before));
+    const changes: TodoChanges = { position };
+    if (parentId !== currentParentId) {
+      changes.parent_id = parentId;
+    }
+    
+    if (!this.updateFields(id, changes, 'move')) {
+      return null;
+    }
+    
+    return this.getTodoById(id) ?? null;
+  }
+  
+  /**
+   * Delete a todo
+   * Moves it to the trash: the row becomes a tombstone that syncs like any other change,
+   * and is only removed for good once TRASH_RETENTION_DAYS have passed (see purgeTrash).
+   * Its subtasks go to the trash with it
+   * @param id Todo ID
+   * @returns True if successful, false otherwise
+   */
+  public async deleteTodo(id: string): Promise<boolean> {
+    logger.info(`Moving todo to the trash: ${id}`);
+    return this.updateFields(id, { deleted_at: new Date().toISOString() }, 'delete');
+  }
+  
+  /**
+   * Restore a todo from the trash, with the subtasks that were trashed along with it
+   * @param id Todo ID
+   * @returns True if successful, false otherwise
+   */
+  public async restoreTodo(id: string): Promise<boolean> {
+    logger.info(`Restoring todo from the trash: ${id}`);
+    return this.updateFields(id, { deleted_at: null }, 'restore');
+  }
+  
+  /**
+   * Undo the latest todo mutation not undone yet
+   * The previous values are written as a new local change, so an action that has already
+   * synced is reverted in Supabase too. Entries of todos that are gone are skipped
+   * @returns True if a mutation was undone
+   */
+  public async undo(): Promise<boolean> {
+    for (let entry = todoHistory.getNextUndo(); entry; entry = todoHistory.getNextUndo()) {
+      const result = this.applyHistoryEntry(entry, true);
+      if (result !== undefined) {
+        return result;
+      }
+    }
+    
+    logger.info('Nothing to undo');
+    return false;
+  }
+  
+  /**
+   * Redo the latest undone todo mutation
+   * @returns True if a mutation was redone
+   */
+  public async redo(): Promise<boolean> {
+    for (let entry = todoHistory.getNextRedo(); entry; entry = todoHistory.getNextRedo()) {
+      const result = this.applyHistoryEntry(entry, false);
+      if (result !== undefined) {
+        return result;
+      }
+    }
+    
+    logger.info('Nothing to redo');
+    return false;
+  }
+  
+  /**
+   * Move the todos of a list that is being deleted to the trash, out of the list
+   * Queued as versioned updates before the list's own delete, so Supabase never sees a todo
+   * pointing at a missing list. Not recorded in the undo history, the list can't be brought back
+   * @param db Database instance of the transaction that deletes the list
+   * @param listId List ID
+   * @returns Number of todos moved
+   */
+  public detachFromList(db: Database.Database, listId: string): number {
+    const rows = db.prepare('SELECT id, deleted_at FROM todos WHERE list_id = ?').all(listId) as
+      Pick<Todo, 'id' | 'deleted_at'>[];
+    
+    const deletedAt = new Date().toISOString();
+    for (const row of rows) {
+      const patch = TodoModel.createPatch(row.deleted_at ? { list_id: null } : { list_id: null, deleted_at: deletedAt });
+      this.writeLocalPatch(db, row.id, patch);
+      offlineStorageService.addPendingOperation('todos', 'update', row.id, patch, db);
+    }
+    
+    if (rows.length > 0) {
+      logger.info(`Moved ${rows.length} todos of list ${listId} to the trash`);
+    }
+    
+    return rows.length;
+  }
+  
+  /**
+   * Break the cycles remote reparenting made in the todo tree
+   * Two devices can each move a todo under the other one; both moves win their own merge, and
+   * the todos end up as each other's subtasks. A cycle is broken at the todo moved last, which
+   * goes to the top level: the parent versions are synced, so every device picks the same one.
+   * Queued as a versioned update, not recorded in the undo history
+   * @param db Database instance of the transaction that applies the remote changes
+   * @param ids IDs of the todos whose parent changed
+   * @returns Number of todos moved to the top level
+   */
+  public breakCycles(db: Database.Database, ids: Iterable<string>): number {
+    const selectStmt = db.prepare('SELECT parent_id, field_versions FROM todos WHERE id = ?');
+    let broken = 0;
+    
+    for (const id of ids) {
+      for (;;) {
+        // Walk up from the todo until the top level, or until a todo comes up again
+        const path: string[] = [];
+        const versions = new Map<string, number>();
+        let current: string | null = id;
+        while (current !== null && !path.includes(current)) {
+          const row = selectStmt.get(current) as { parent_id: string | null; field_versions: string } | undefined;
+          if (!row) {
+            current = null;
+            break;
+          }
+          path.push(current);
+          versions.set(current, parseFieldVersions(row.field_versions).parent_id ?? 0);
+          current = row.parent_id;
+        }
+        if (current === null) {
+          break;
+        }
+        
+        const cycle = path.slice(path.indexOf(current));
+        const newest = cycle.reduce((last, candidate) => {
+          const difference = versions.get(candidate)! - versions.get(last)!;
+          return difference > 0 || (difference === 0 && candidate > last) ? candidate : last;
+        });
+        
+        logger.warn(`Todos ${cycle.join(', ')} are subtasks of each other, moving ${newest} to the top level`);
+        const patch = TodoModel.createPatch({ parent_id: null });
+        this.writeLocalPatch(db, newest, patch);
+        offlineStorageService.addPendingOperation('todos', 'update', newest, patch, db);
+        broken++;
+      }
+    }
+    
+    return broken;
+  }
+  
+  /**
+   * Remove trashed todos past their retention for good, locally and in Supabase
+   * Subtasks left behind move to the top level, as the foreign key does in Supabase; that
+   * change reaches Supabase with the delete, so it isn't queued
+   * @returns Number of todos purged
+   */
+  public purgeTrash(): number {
+    if (this.trashRetentionDays <= 0) {
+      return 0;
+    }
+    
     try {
-      logger.info(`Toggling todo ${id} to ${completed ? 'completed' : 'incomplete'}`);
+      const cutoff = new Date(Date.now() - this.trashRetentionDays * 24 * 60 * 60 * 1000).toISOString();
       
-      // Update local database
-      const result = sqliteService.execute(
-        'UPDATE todos SET completed = ? WHERE id = ?',
-        [completed ? 1 : 0, id]
-      );
+      // Delete from local database together with their outbox entries
+      const purged = sqliteService.transaction(db => {
+        const rows = db.prepare(
+          'SELECT id FROM todos WHERE deleted_at IS NOT NULL AND deleted_at <= ?'
+        ).all(cutoff) as { id: string }[];
+        
+        const deleteStmt = db.prepare('DELETE FROM todos WHERE id = ?');
+        const orphanStmt = db.prepare('UPDATE todos SET parent_id = NULL WHERE parent_id = ?');
+        for (const row of rows) {
+          deleteStmt.run(row.id);
+          orphanStmt.run(row.id);
+          todoHistory.forget(db, row.id);
+          tagService.forgetTodo(db, row.id);
+          offlineStorageService.addPendingOperation('todos', 'delete', row.id, undefined, db);
+        }
+        return rows.length;
+      });
       
-      if (result.changes === 0) {
-        logger.warn(`Todo with id ${id} not found for toggle`);
-        return false;
+      if (purged > 0) {
+        logger.info(`Purged ${purged} todos trashed more than ${this.trashRetentionDays} days ago`);
+        syncCoordinator.requestOutboxPush();
       }
       
-      // Get the updated todo
-      const todo = this.getTodoById(id);
+      return purged;
+    } catch (error) {
+      logger.error('Error purging the trash', error);
+      return 0;
+    }
+  }
+  
+  /**
+   * Purge the trash now and then
+   * Disabled when TRASH_RETENTION_DAYS is 0
+   */
+  public startTrashPurge(): void {
+    if (this.trashRetentionDays <= 0) {
+      logger.info('Trash purge disabled');
+      return;
+    }
+    
+    if (this.trashPurgeTimer) {
+      clearInterval(this.trashPurgeTimer);
+    }
+    
+    logger.info(`Purging todos trashed more than ${this.trashRetentionDays} days ago every ${TRASH_PURGE_INTERVAL / 60000} minutes`);
+    
+    // The first purge waits for the database and the outbox to be set up
+    setTimeout(() => this.purgeTrash(), TRASH_PURGE_DELAY).unref();
+    this.trashPurgeTimer = setInterval(() => this.purgeTrash(), TRASH_PURGE_INTERVAL);
+    this.trashPurgeTimer.unref();
+  }
+  
+  /**
+   * Change fields of a todo, and of the subtasks or parents the change cascades to, and
+   * record the action in the undo history
+   * @param id Todo ID
+   * @param changes Changed fields; completed and status are kept in step, see TodoModel.withStatus
+   * @param action The action, for the history
+   * @returns True if successful, false otherwise
+   */
+  private updateFields(id: string, changes: TodoChanges, action: TodoHistoryAction): boolean {
+    changes = TodoModel.withStatus(changes);
+    
+    try {
+      const version = Date.now();
+      const patch = TodoModel.createPatch(changes, version);
       
-      // Check if the todo was actually found
-      if (!todo) {
-        logger.error(`Todo with id ${id} not found after update`);
+      // Update local database together with its history and outbox entries
+      const queued = sqliteService.transaction(db => {
+        const before = this.readFields(db, id, changes);
+        if (!before || !this.writeLocalPatch(db, id, patch)) {
+          return undefined;
+        }
+        
+        const operation = offlineStorageService.addPendingOperation('todos', 'update', id, patch, db);
+        const cascade = this.writeCascade(db, this.getCascade(db, id, changes, before), version);
+        todoHistory.record(db, action, id, before, changes, cascade);
+        return operation !== null || cascade.length > 0;
+      });
+      
+      if (queued === undefined) {
+        logger.warn(`Todo with id ${id} not found for ${action}`);
         return false;
       }
       
-      // Check if we're online by testing Supabase connection
-      let isOnline = false;
-      try {
-        isOnline = await supabaseService.checkConnection();
-      } catch (err) {
-        logger.error('Supabase connection check error', err);
-        isOnline = false;
+      if (queued) {
+        syncCoordinator.requestOutboxPush();
       }
+      this.rescheduleReminders(changes);
       
-      // Sync with Supabase if online
-      if (isOnline) {
-        try {
-          logger.info(`Updating todo ${id} directly in Supabase: completed=${completed}`);
-          const success = await supabaseService.updateTodo(id, { completed });
-          
-          if (!success) {
-            logger.error(`Supabase update failed for todo: ${id}`);
-            
-            // Store as pending operation
-            offlineStorageService.addPendingOperation('update', id, todo);
-          } else {
-            logger.debug(`Todo ${id} updated in Supabase successfully`);
+      return true;
+    } catch (error) {
+      logger.error(`Error applying ${action} to todo ${id}`, error);
+      return false;
+    }
+  }
+  
+  /**
+   * Undo or redo a history entry, together with the changes it cascaded to other todos
+   * Trashing is stamped with the current time, not the one of the original action, so the
+   * todos stay in the trash for the full retention
+   * @param entry The entry
+   * @param undo True to undo it, false to redo it
+   * @returns Whether it was applied, undefined if its todo is gone and the entry was dropped
+   */
+  private applyHistoryEntry(entry: TodoHistoryEntry, undo: boolean): boolean | undefined {
+    const deletedAt = new Date().toISOString();
+    const version = Date.now();
+    
+    try {
+      logger.info(`${undo ? 'Undoing' : 'Redoing'} ${entry.action} of todo ${entry.todoId}`);
+      
+      const queued = sqliteService.transaction(db => {
+        const changes = this.prepareHistoryChanges(db, entry.todoId, undo ? entry.before : entry.after, deletedAt);
+        const patch = TodoModel.createPatch(changes, version);
+        if (!this.writeLocalPatch(db, entry.todoId, patch)) {
+          return undefined;
+        }
+        
+        let operation = offlineStorageService.addPendingOperation('todos', 'update', entry.todoId, patch, db);
+        
+        // Subtasks purged since are skipped
+        for (const change of entry.cascade) {
+          const cascaded = this.prepareHistoryChanges(db, change.todoId, undo ? change.before : change.after, deletedAt);
+          const cascadedPatch = TodoModel.createPatch(cascaded, version);
+          if (this.writeLocalPatch(db, change.todoId, cascadedPatch)) {
+            operation = offlineStorageService.addPendingOperation('todos', 'update', change.todoId, cascadedPatch, db) ?? operation;
           }
-        } catch (syncError) {
-          logger.error(`Error updating in Supabase: ${id}`, syncError);
-          
-          // Store as pending operation
-          offlineStorageService.addPendingOperation('update', id, todo);
         }
-      } else {
-        logger.info('Offline, storing pending operation');
-        // Store as pending operation if offline
-        offlineStorageService.addPendingOperation('update', id, todo);
+        
+        todoHistory.setUndone(db, entry.id, undo);
+        return operation !== null;
+      });
+      
+      if (queued === undefined) {
+        logger.warn(`Todo with id ${entry.todoId} not found, dropping history entry ${entry.id}`);
+        todoHistory.remove(entry.id);
+        return undefined;
+      }
+      
+      if (queued) {
+        syncCoordinator.requestOutboxPush();
       }
+      this.rescheduleReminders(undo ? entry.before : entry.after);
       
       return true;
     } catch (error) {
-      logger.error(`Error toggling todo ${id}`, error);
+      logger.error(`Error ${undo ? 'undoing' : 'redoing'} history entry ${entry.id}`, error);
       return false;
     }
   }
   
   /**
-   * Delete a todo
+   * Adapt recorded values of a todo to the current state before writing them again
+   * @param db Database instance of the surrounding transaction
    * @param id Todo ID
-   * @returns True if successful, false otherwise
+   * @param recorded The recorded values
+   * @param deletedAt Time to trash the todo at, if the values trash it
+   * @returns The values to write
    */
-  public async deleteTodo(id: string): Promise<boolean> {
-    try {
-      logger.info(`Deleting todo: ${id}`);
-      
-      // Delete from local database
-      const result = sqliteService.execute(
-        'DELETE FROM todos WHERE id = ?',
-        [id]
-      );
-      
-      if (result.changes === 0) {
-        logger.warn(`Todo with id ${id} not found for deletion`);
+  private prepareHistoryChanges(db: Database.Database, id: string, recorded: TodoChanges, deletedAt: string): TodoChanges {
+    const changes = { ...recorded };
+    if (changes.deleted_at) {
+      changes.deleted_at = deletedAt;
+    }
+    
+    // The todo's list may have been deleted since, it lands in the inbox then
+    if (changes.list_id && !db.prepare('SELECT 1 FROM lists WHERE id = ?').get(changes.list_id)) {
+      changes.list_id = null;
+    }
+    
+    // Same for its parent, which may also have been moved under the todo since
+    if (changes.parent_id && (
+      !db.prepare('SELECT 1 FROM todos WHERE id = ?').get(changes.parent_id) ||
+      this.isSelfOrAncestor(db, id, changes.parent_id)
+    )) {
+      changes.parent_id = null;
+    }
+    
+    // Entries recorded before statuses only have completed
+    return TodoModel.withStatus(changes);
+  }
+  
+  /**
+   * Read the current values of some fields of a todo
+   * @param db Database instance of the surrounding transaction
+   * @param id Todo ID
+   * @param changes The fields to read, by their new values
+   * @returns The current values, or undefined if there is no such todo
+   */
+  private readFields(db: Database.Database, id: string, changes: TodoChanges): TodoChanges | undefined {
+    const record = db.prepare(
+      'SELECT title, completed, status, priority, deleted_at, due_at, remind_before, list_id, parent_id, position FROM todos WHERE id = ?'
+    ).get(id) as Pick<Todo, 'title' | 'status' | 'priority' | 'deleted_at' | 'due_at' | 'remind_before' | 'list_id' | 'parent_id' | 'position'> & { completed: number } | undefined;
+    if (!record) {
+      return undefined;
+    }
+    
+    const values: TodoChanges = {};
+    if (changes.title !== undefined) values.title = record.title;
+    if (changes.completed !== undefined) values.completed = record.completed === 1;
+    if (changes.status !== undefined) values.status = record.status;
+    if (changes.priority !== undefined) values.priority = record.priority;
+    if (changes.deleted_at !== undefined) values.deleted_at = record.deleted_at;
+    if (changes.due_at !== undefined) values.due_at = record.due_at;
+    if (changes.remind_before !== undefined) values.remind_before = record.remind_before;
+    if (changes.list_id !== undefined) values.list_id = record.list_id;
+    if (changes.parent_id !== undefined) values.parent_id = record.parent_id;
+    if (changes.position !== undefined) values.position = record.position;
+    return values;
+  }
+  
+  /**
+   * Write the resolution of a sync conflict of a todo
+   * Accepting a remote deletion drops the todo with its tags and history; keeping a todo
+   * deleted remotely queues it as a fresh create in place of its queued edits
+   * @param conflict The conflict being resolved
+   * @param values The chosen values, null to accept the remote deletion
+   * @returns True if the resolution was written
+   */
+  public resolveConflict(conflict: SyncConflict, values: Record<string, unknown> | null): boolean {
+    const id = conflict.rowId;
+    
+    if (values === null) {
+      logger.info(`Accepting remote deletion of todo ${id}`);
+      sqliteService.transaction(db => {
+        db.prepare('DELETE FROM todos WHERE id = ?').run(id);
+        todoHistory.forget(db, id);
+        tagService.forgetTodo(db, id);
+        offlineStorageService.clearPendingOperation('todos', id);
+      });
+      return true;
+    }
+    
+    // Only the conflicting columns are settled, unless the whole row is being restored
+    const columns = conflict.remote === null ? Object.keys(values) : conflict.columns;
+    const changes: Partial<Todo> = {};
+    for (const column of columns) {
+      if (column === 'title' && typeof values.title === 'string') {
+        changes.title = values.title;
+      } else if (column === 'completed' && typeof values.completed === 'boolean') {
+        changes.completed = values.completed;
+      } else if (column === 'status' && typeof values.status === 'string') {
+        changes.status = values.status as TodoStatus;
+      } else if (column === 'priority' && (values.priority === null || typeof values.priority === 'string')) {
+        changes.priority = values.priority as TodoPriority | null;
+      } else if (column === 'deleted_at' && (values.deleted_at === null || typeof values.deleted_at === 'string')) {
+        changes.deleted_at = values.deleted_at as string | null;
+      } else if (column === 'due_at' && (values.due_at === null || typeof values.due_at === 'string')) {
+        changes.due_at = values.due_at as string | null;
+      } else if (column === 'remind_before' && (values.remind_before === null || Number.isInteger(values.remind_before))) {
+        changes.remind_before = values.remind_before as number | null;
+      } else if (column === 'list_id' && (values.list_id === null || typeof values.list_id === 'string')) {
+        changes.list_id = values.list_id as string | null;
+      } else if (column === 'parent_id' && (values.parent_id === null || typeof values.parent_id === 'string')) {
+        changes.parent_id = values.parent_id as string | null;
+      } else if (column === 'position' && (values.position === null || typeof values.position === 'string')) {
+        changes.position = values.position as string | null;
+      } else if (values.hasOwnProperty(column)) {
+        logger.warn(`Ignoring invalid value of ${column} while resolving conflict ${conflict.id}`);
+      }
+    }
+    
+    const patch = TodoModel.createPatch(TodoModel.withStatus(changes));
+    
+    return sqliteService.transaction(db => {
+      if (!this.writeLocalPatch(db, id, patch)) {
+        logger.warn(`Todo with id ${id} not found while resolving conflict ${conflict.id}`);
         return false;
       }
       
-      // Check if we're online by testing Supabase connection
-      let isOnline = false;
-      try {
-        isOnline = await supabaseService.checkConnection();
-      } catch (err) {
-        logger.error('Supabase connection check error', err);
-        isOnline = false;
+      // The chosen parent may be one of the todo's subtasks by now
+      if (changes.parent_id) {
+        this.breakCycles(db, [id]);
       }
       
-      // Sync with Supabase if online
-      if (isOnline) {
-        try {
-          logger.info(`Deleting todo ${id} directly from Supabase`);
-          const success = await supabaseService.deleteTodo(id);
-          
-          if (!success) {
-            logger.error(`Supabase delete failed for todo: ${id}`);
-            
-            // Store as pending operation
-            offlineStorageService.addPendingOperation('delete', id);
-          } else {
-            logger.debug(`Todo ${id} deleted from Supabase successfully`);
-          }
-        } catch (syncError) {
-          logger.error(`Error deleting from Supabase: ${id}`, syncError);
-          
-          // Store as pending operation
-          offlineStorageService.addPendingOperation('delete', id);
-        }
-      } else {
-        logger.info('Offline, storing pending operation');
-        // Store as pending operation if offline
-        offlineStorageService.addPendingOperation('delete', id);
+      if (conflict.remote !== null) {
+        logger.info(`Resolving conflict ${conflict.id} of todo ${id} (${Object.keys(changes).join(', ')})`);
+        offlineStorageService.addPendingOperation('todos', 'update', id, patch, db);
+        return true;
       }
       
+      // The row is gone remotely, the edits queued for it are replaced by a fresh create
+      logger.info(`Restoring todo ${id} deleted remotely (conflict ${conflict.id})`);
+      const record = db.prepare('SELECT * FROM todos WHERE id = ?').get(id);
+      offlineStorageService.clearPendingOperation('todos', id);
+      offlineStorageService.addPendingOperation('todos', 'create', id, TodoModel.fromDbModel(record), db);
       return true;
-    } catch (error) {
-      logger.error(`Error deleting todo ${id}`, error);
-      return false;
+    });
+  }
+  
+  /**
+   * Let the reminder scheduler pick up a local change that may move a reminder
+   * @param changes The changed fields
+   */
+  private rescheduleReminders(changes: TodoChanges): void {
+    if (REMINDER_FIELDS.some(field => changes[field] !== undefined)) {
+      reminderScheduler.reschedule();
+    }
+  }
+  
+  /**
+   * Check a todo can be put in a list
+   * @param listId The list ID, null or undefined for none
+   * @throws ValidationError if there is no such list
+   */
+  private assertListExists(listId: string | null | undefined): void {
+    if (listId && !sqliteService.queryOne('SELECT 1 FROM lists WHERE id = ?', [listId])) {
+      throw new ValidationError(`List ${listId} doesn't exist`, 'list_id');
+    }
+  }
+  
+  /**
+   * Get the position that puts a todo right before one of its siblings
+   * Siblings put at the same place on two devices share a position; when the todo goes
+   * between two of those, the second one first moves up to the next free position. When the
+   * position gets too long, the siblings around it are respaced instead
+   * @param db Database instance of the surrounding transaction
+   * @param id Todo ID
+   * @param parentId The parent of the siblings, null for the top level
+   * @param beforeId The sibling to put the todo before, null for the end
+   * @returns The position
+   * @throws ValidationError if the sibling isn't under the parent
+   */
+  private getPositionBefore(db: Database.Database, id: string, parentId: string | null, beforeId: string | null): string {
+    const siblings = db.prepare(
+      'SELECT id, position FROM todos WHERE parent_id IS ? AND id != ? AND deleted_at IS NULL ORDER BY position, id'
+    ).all(parentId, id) as { id: string; position: string }[];
+    
+    const index = beforeId === null ? siblings.length : siblings.findIndex(sibling => sibling.id === beforeId);
+    if (index < 0) {
+      throw new ValidationError(`Todo ${beforeId} is not under ${parentId ?? 'the top level'}`, 'before');
+    }
+    
+    const previous = siblings[index - 1]?.position ?? null;
+    let next = siblings[index]?.position ?? null;
+    const tied = previous !== null && next !== null && previous >= next;
+    if (tied) {
+      const following = siblings.slice(index + 1).find(sibling => sibling.position > previous)?.position ?? null;
+      next = positionBetween(previous, following);
+    }
+    
+    const position = positionBetween(previous, next);
+    if (position.length > MAX_POSITION_LENGTH) {
+      return this.respacePositions(db, siblings, index);
+    }
+    
+    if (tied) {
+      this.writePosition(db, siblings[index].id, next as string);
+    }
+    return position;
+  }
+  
+  /**
+   * Respace the positions of the siblings around the place a todo goes
+   * Only as many siblings as needed for short positions are moved, each synced like a move
+   * @param db Database instance of the surrounding transaction
+   * @param siblings The siblings of the todo, in order
+   * @param index Where the todo goes among them
+   * @returns The position of the todo
+   */
+  private respacePositions(db: Database.Database, siblings: { id: string; position: string }[], index: number): string {
+    for (let radius = RESPACE_RADIUS; ; radius *= 2) {
+      const start = Math.max(0, index - radius);
+      const end = Math.min(siblings.length, index + radius);
+      const lower = siblings[start - 1]?.position ?? null;
+      const upper = siblings[end]?.position ?? null;
+      const whole = start === 0 && end === siblings.length;
+      if (!whole && lower !== null && upper !== null && lower >= upper) {
+        continue;
+      }
+      
+      const positions = positionsBetween(lower, upper, end - start + 1);
+      if (!whole && positions.some(position => position.length > MAX_POSITION_LENGTH)) {
+        continue;
+      }
+      
+      logger.info(`Respacing the positions of ${end - start} todos`);
+      siblings.slice(start, end).forEach((sibling, i) => {
+        // The todo takes its own place among the new positions
+        const position = positions[start + i < index ? i : i + 1];
+        if (sibling.position !== position) {
+          this.writePosition(db, sibling.id, position);
+        }
+      });
+      return positions[index - start];
+    }
+  }
+  
+  /**
+   * Give a sibling of a moved todo a new position, synced like a move
+   * @param db Database instance of the surrounding transaction
+   * @param id Todo ID
+   * @param position The position
+   */
+  private writePosition(db: Database.Database, id: string, position: string): void {
+    const patch = TodoModel.createPatch({ position });
+    this.writeLocalPatch(db, id, patch);
+    offlineStorageService.addPendingOperation('todos', 'update', id, patch, db);
+  }
+  
+  /**
+   * Get a todo new subtasks can be put under
+   * @param parentId Todo ID
+   * @returns The list of the todo
+   * @throws ValidationError if there is no such todo or it is in the trash
+   */
+  private getParent(parentId: string): Pick<Todo, 'list_id'> {
+    const parent = sqliteService.queryOne<Pick<Todo, 'list_id'>>(
+      'SELECT list_id FROM todos WHERE id = ? AND deleted_at IS NULL',
+      [parentId]
+    );
+    if (!parent) {
+      throw new ValidationError(`Todo ${parentId} doesn't exist`, 'parent_id');
+    }
+    return parent;
+  }
+  
+  /**
+   * Check whether a todo is another one or one of its parents, at any depth
+   * @param db Database instance
+   * @param id The todo that may be a parent
+   * @param todoId The other todo
+   */
+  private isSelfOrAncestor(db: Database.Database, id: string, todoId: string): boolean {
+    return id === todoId || db.prepare(SELECT_ANCESTORS).all(todoId, todoId).some(row => (row as RelatedTodo).id === id);
+  }
+  
+  /**
+   * Get the changes an action on a todo cascades to other todos
+   * Trashing a todo trashes its subtasks, and restoring it restores the ones trashed along with
+   * it. Completing a todo completes its subtasks, and reopening it reopens its completed parents
+   * @param db Database instance of the surrounding transaction
+   * @param id Todo ID
+   * @param changes Fields the action changes
+   * @param before Values of those fields before the action
+   * @returns The changes, by todo
+   */
+  private getCascade(db: Database.Database, id: string, changes: TodoChanges, before: TodoChanges): Map<string, TodoChanges> {
+    const cascade = new Map<string, TodoChanges>();
+    const add = (todoId: string, change: TodoChanges) => cascade.set(todoId, { ...cascade.get(todoId), ...change });
+    
+    const needsSubtasks = changes.deleted_at !== undefined || changes.completed === true;
+    const subtasks = needsSubtasks ? db.prepare(SELECT_SUBTASKS).all(id, id) as RelatedTodo[] : [];
+    
+    if (changes.deleted_at) {
+      subtasks.filter(todo => !todo.deleted_at).forEach(todo => add(todo.id, { deleted_at: changes.deleted_at }));
+    } else if (changes.deleted_at === null && before.deleted_at) {
+      subtasks.filter(todo => todo.deleted_at === before.deleted_at).forEach(todo => add(todo.id, { deleted_at: null }));
+    }
+    
+    if (changes.completed === true) {
+      subtasks.filter(todo => !todo.completed && !todo.deleted_at).forEach(todo => add(todo.id, { completed: true }));
+    } else if (changes.completed === false) {
+      const ancestors = db.prepare(SELECT_ANCESTORS).all(id, id) as RelatedTodo[];
+      ancestors.filter(todo => todo.completed).forEach(todo => add(todo.id, { completed: false }));
+    }
+    
+    return cascade;
+  }
+  
+  /**
+   * Write the changes an action cascades to other todos, each with its outbox entry
+   * @param db Database instance of the surrounding transaction
+   * @param cascade The changes, by todo, see getCascade
+   * @param version Version of the action
+   * @returns The changes written, for the history
+   */
+  private writeCascade(db: Database.Database, cascade: Map<string, TodoChanges>, version: number): TodoCascadeChange[] {
+    const written: TodoCascadeChange[] = [];
+    for (const [todoId, cascaded] of cascade) {
+      const changes = TodoModel.withStatus(cascaded);
+      const before = this.readFields(db, todoId, changes);
+      const patch = TodoModel.createPatch(changes, version);
+      if (before && this.writeLocalPatch(db, todoId, patch)) {
+        offlineStorageService.addPendingOperation('todos', 'update', todoId, patch, db);
+        written.push({ todoId, before, after: changes });
+      }
+    }
+    
+    if (written.length > 0) {
+      logger.info(`Cascaded the change to ${written.length} related todos`);
+    }
+    
+    return written;
+  }
+  
+  /**
+   * Write a patch of a todo to the local database
+   * @param db Database instance of the surrounding transaction
+   * @param id Todo ID
+   * @param patch Changed fields with their versions, see TodoModel.createPatch
+   * @returns False if there is no such todo
+   */
+  private writeLocalPatch(db: Database.Database, id: string, patch: Partial<Todo>): boolean {
+    const updates: string[] = [];
+    const params: any[] = [];
+    
+    if (patch.title !== undefined) {
+      updates.push('title = ?');
+      params.push(patch.title);
+    }
+    
+    if (patch.completed !== undefined) {
+      updates.push('completed = ?');
+      params.push(patch.completed ? 1 : 0);
+    }
+    
+    if (patch.status !== undefined) {
+      updates.push('status = ?');
+      params.push(patch.status);
+    }
+    
+    if (patch.priority !== undefined) {
+      updates.push('priority = ?');
+      params.push(patch.priority);
+    }
+    
+    if (patch.deleted_at !== undefined) {
+      updates.push('deleted_at = ?');
+      params.push(patch.deleted_at);
+    }
+    
+    if (patch.due_at !== undefined) {
+      updates.push('due_at = ?');
+      params.push(patch.due_at);
+    }
+    
+    if (patch.remind_before !== undefined) {
+      updates.push('remind_before = ?');
+      params.push(patch.remind_before);
+    }
+    
+    if (patch.list_id !== undefined) {
+      updates.push('list_id = ?');
+      params.push(patch.list_id);
+    }
+    
+    if (patch.parent_id !== undefined) {
+      updates.push('parent_id = ?');
+      params.push(patch.parent_id);
+    }
+    
+    if (patch.position !== undefined) {
+      updates.push('position = ?');
+      params.push(patch.position);
     }
+    
+    updates.push('updated_at = ?', 'field_versions = json_patch(field_versions, ?)');
+    params.push(patch.updated_at, JSON.stringify(patch.field_versions ?? {}));
+    
+    const result = db.prepare(`UPDATE todos SET ${updates.join(', ')} WHERE id = ?`).run(...params, id);
+    return result.changes > 0;
   }
 }
 
@@ -0,0 +1,426 @@
+/**
+ * Todo shape
+ * Declares the todos shape and how its changes are applied to the local database
+ */
+import Database from 'better-sqlite3';
+import configService from '../../config';
+import { getLogger } from '../../logging';
+import { offlineStorageService } from '../../sync/offline';
+import { supabaseService } from '../../sync/supabase';
+import { mergeFields, parseFieldVersions, getUpdatedAt, conflictStore } from '../../sync/conflict';
+import { SyncConflictError, SupabaseRequestError } from '../../error/app.error';
+import { todoService } from './todo.service';
+import { tagService } from '../tags/tag.service';
+import type { ProcessedShapeEntry, ShapeSchema } from '../../sync/electric';
+import type { ShapeDefinition, ShapeApplyResult } from '../../sync/shapes';
+import type { PendingOperation, RowReference } from '../../sync/offline';
+import type { Todo } from '../../../@types/todo';
+
+const logger = getLogger('TodoShape');
+
+// Synced columns of the todos table, other than the primary key
+const TODO_COLUMNS = ['title', 'completed', 'status', 'priority', 'created_at', 'deleted_at', 'due_at', 'remind_before', 'list_id', 'parent_id', 'position'];
+
+// Local columns rewritten with every applied entry
+const MERGE_STATE_COLUMNS = ['updated_at', 'field_versions', 'synced_values'];
+
+/**
+ * Build the upsert for a todo insert
+ * Only the merged columns are overwritten on conflict, so a column-scoped shape never
+ * blanks out local values of the columns it leaves out, and local edits that won the
+ * merge are kept
+ * @param db Database instance
+ * @param columns Columns taking the remote value
+ */
+function prepareTodoUpsert(db: Database.Database, columns: string[]): Database.Statement {
+  const updates = [...columns, ...MERGE_STATE_COLUMNS].map(column => `${column} = excluded.${column}`);
+  return db.prepare(
+    `INSERT INTO todos (id, title, completed, status, priority, created_at, deleted_at, due_at, remind_before, list_id, parent_id, position, updated_at, field_versions, synced_values)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+     ON CONFLICT(id) DO UPDATE SET ${updates.join(', ')}`
+  );
+}
+
+// Column types of the remote todos table (supabase/schema.sql),
+// used until Electric has sent the electric-schema header
+const TODO_SCHEMA: ShapeSchema = {
+  id: { type: 'uuid', pk_index: 0, not_null: true },
+  title: { type: 'text', not_null: true },
+  completed: { type: 'bool' },
+  status: { type: 'text' },
+  priority: { type: 'text' },
+  created_at: { type: 'timestamptz' },
+  deleted_at: { type: 'timestamptz' },
+  due_at: { type: 'timestamptz' },
+  remind_before: { type: 'int4' },
+  list_id: { type: 'uuid' },
+  parent_id: { type: 'uuid' },
+  position: { type: 'text' },
+  updated_at: { type: 'timestamptz' },
+  field_versions: { type: 'jsonb' },
+  client_mutation_id: { type: 'uuid' }
+};
+
+// Remote column carrying the client mutation id of the last local change pushed for a row
+const MUTATION_ID_COLUMN = 'client_mutation_id';
+
+// Postgres error code of a foreign key violation
+const FOREIGN_KEY_VIOLATION = '23503';
+
+// Columns referencing rows a todo can reach Supabase after, see withoutMissingReferences
+const REFERENCE_COLUMNS = ['list_id', 'parent_id'];
+
+// Columns the sync engine needs whatever TODOS_SHAPE_COLUMNS says
+const REQUIRED_COLUMNS = ['field_versions', MUTATION_ID_COLUMN];
+
+/**
+ * Local todo row, as read for merging
+ */
+interface TodoRecord {
+  id: string;
+  title: string;
+  completed: number;
+  status: string;
+  priority: string | null;
+  created_at: string;
+  deleted_at: string | null;
+  due_at: string | null;
+  remind_before: number | null;
+  list_id: string | null;
+  parent_id: string | null;
+  position: string | null;
+  updated_at: string | null;
+  field_versions: string;
+  synced_values: string;
+}
+
+/**
+ * Get the synced columns of a local todo, in their remote representation
+ * @param record The local row
+ * @param columns The columns to pick
+ */
+function pickRemoteValues(record: TodoRecord, columns: Iterable<string>): Record<string, unknown> {
+  const values: Record<string, unknown> = {};
+  for (const column of columns) {
+    if (column === 'completed') {
+      values.completed = record.completed === 1;
+    } else if (TODO_COLUMNS.includes(column)) {
+      values[column] = record[column as keyof TodoRecord];
+    }
+  }
+  return values;
+}
+
+/**
+ * Pick some columns of a set of values
+ * @param values The values
+ * @param columns The columns to pick, missing ones are left out
+ */
+function pickValues(values: Record<string, unknown>, columns: Iterable<string>): Record<string, unknown> {
+  const picked: Record<string, unknown> = {};
+  for (const column of columns) {
+    if (values.hasOwnProperty(column)) {
+      picked[column] = values[column];
+    }
+  }
+  return picked;
+}
+
+/**
+ * Apply todo shape entries to the todos table
+ * Values arrive decoded (completed as boolean, created_at as ISO string)
+ * Each entry is first matched against the outbox: echoes of our own pushes confirm them.
+ * Columns with unconfirmed local changes are then merged field by field, the newer write
+ * wins, so a stale echo never overwrites an edit made after the echoed push. Changes that
+ * can't be merged keep the local values and are stored in the conflict inbox, along with
+ * the last synced values as their base
+ * Called by the sync coordinator inside a transaction
+ * @param db Database instance of the surrounding transaction
+ * @param entries Processed shape entries
+ */
+function applyTodoEntries(db: Database.Database, entries: ProcessedShapeEntry[]): ShapeApplyResult {
+  let inserted = 0;
+  let updated = 0;
+  let deleted = 0;
+  
+  const conflicts: SyncConflictError[] = [];
+  
+  // Prepare statements outside the loop for efficiency
+  const upsertStmts = new Map<string, Database.Statement>();
+  const updateStmts = new Map<string, Database.Statement>();
+  const selectStmt = db.prepare(`SELECT * FROM todos WHERE id = ?`);
+  const deleteStmt = db.prepare(`DELETE FROM todos WHERE id = ?`);
+  
+  // Todos moved under another one, checked for cycles once the whole batch is in
+  const reparented: string[] = [];
+  
+  for (const entry of entries) {
+    try {
+      const reconciliation = offlineStorageService.confirmEcho(
+        db,
+        'todos',
+        entry.key.id as string,
+        entry.operation,
+        entry.value?.[MUTATION_ID_COLUMN]
+      );
+      if (reconciliation.pendingCreate) {
+        logger.debug(`Skipping ${entry.operation} for ${entry.id}, its local create is not confirmed yet`);
+        continue;
+      }
+      if (entry.operation !== 'delete' && reconciliation.pendingDelete) {
+        logger.debug(`Skipping ${entry.operation} for ${entry.id}, it was deleted locally`);
+        continue;
+      }
+      
+      const local = selectStmt.get(entry.key.id) as TodoRecord | undefined;
+      const synced = local ? JSON.parse(local.synced_values) : {};
+      
+      if (entry.operation === 'delete') {
+        // Dropping the row would lose edits that were never pushed
+        if (local && reconciliation.pendingColumns.size > 0) {
+          const columns = [...reconciliation.pendingColumns];
+          conflictStore.record(db, {
+            table: 'todos',
+            rowId: entry.id,
+            columns,
+            local: pickRemoteValues(local, columns),
+            remote: null,
+            base: pickValues(synced, columns)
+          });
+          conflicts.push(new SyncConflictError(
+            `Todo ${entry.id} was deleted remotely while it has local edits`,
+            'todos',
+            entry.id,
+            columns
+          ));
+          continue;
+        }
+        
+        const info = deleteStmt.run(entry.key.id);
+        tagService.forgetTodo(db, entry.key.id as string);
+        if (info.changes > 0) deleted++;
+        else logger.warn(`Delete for ${entry.id} affected 0 rows (may have been deleted already)`);
+        continue;
+      }
+      
+      if (!entry.value) {
+        logger.warn(`Skipping ${entry.operation} for ${entry.id} due to missing value`);
+        continue;
+      }
+      
+      if (!local && entry.operation === 'update') {
+        logger.warn(`Update for ${entry.id} affected 0 rows`);
+        continue;
+      }
+      
+      const remote: Record<string, unknown> = {};
+      for (const column of TODO_COLUMNS) {
+        if (entry.value.hasOwnProperty(column)) {
+          remote[column] = entry.value[column];
+        }
+      }
+      
+      const merge = mergeFields({
+        table: 'todos',
+        rowId: entry.id,
+        remote,
+        remoteVersions: entry.value.hasOwnProperty('field_versions')
+          ? parseFieldVersions(entry.value.field_versions)
+          : undefined,
+        local: local ? pickRemoteValues(local, TODO_COLUMNS) : {},
+        localVersions: local ? parseFieldVersions(local.field_versions) : {},
+        pendingColumns: reconciliation.pendingColumns
+      });
+      if (merge.conflict && local) {
+        conflictStore.record(db, {
+          table: 'todos',
+          rowId: entry.id,
+          columns: merge.conflict.columns,
+          local: pickRemoteValues(local, merge.conflict.columns),
+          remote: pickValues(remote, merge.conflict.columns),
+          base: pickValues(synced, merge.conflict.columns)
+        });
+        conflicts.push(merge.conflict);
+      }
+      
+      const columns = Object.keys(merge.values);
+      if (merge.values.parent_id) {
+        reparented.push(entry.key.id as string);
+      }
+      const updatedAt = getUpdatedAt(merge.versions) ?? entry.value.updated_at ?? local?.updated_at ?? null;
+      const versions = JSON.stringify(merge.versions);
+      const syncedValues = JSON.stringify({ ...synced, ...remote });
+      
+      if (entry.operation === 'insert') {
+        const key = columns.join(',');
+        if (!upsertStmts.has(key)) {
+          upsertStmts.set(key, prepareTodoUpsert(db, columns));
+        }
+        
+        upsertStmts.get(key)!.run(
+          entry.key.id,
+          merge.values.title || '',
+          merge.values.completed ? 1 : 0,
+          merge.values.status ?? 'todo',
+          merge.values.priority ?? null,
+          merge.values.created_at || new Date().toISOString(),
+          merge.values.deleted_at ?? null,
+          merge.values.due_at ?? null,
+          merge.values.remind_before ?? null,
+          merge.values.list_id ?? null,
+          merge.values.parent_id ?? null,
+          merge.values.position ?? null,
+          updatedAt,
+          versions,
+          syncedValues
+        );
+        inserted++;
+        continue;
+      }
+      
+      // Build SET clause dynamically based on the merged fields
+      const key = columns.join(',');
+      if (!updateStmts.has(key)) {
+        const updates = [...columns, ...MERGE_STATE_COLUMNS].map(column => `${column} = ?`);
+        updateStmts.set(key, db.prepare(`UPDATE todos SET ${updates.join(', ')} WHERE id = ?`));
+      }
+      
+      const params = columns.map(column => column === 'completed' ? (merge.values.completed ? 1 : 0) : merge.values[column]);
+      const info = updateStmts.get(key)!.run(...params, updatedAt, versions, syncedValues, entry.key.id);
+      if (info.changes > 0) updated++;
+      else logger.warn(`Update for ${entry.id} affected 0 rows`);
+    } catch (dbError) {
+      logger.error(`Error applying ${entry.operation} for todo ${entry.id}`, dbError);
+      throw dbError;
+    }
+  }
+  
+  const repaired = reparented.length > 0 ? todoService.breakCycles(db, reparented) : 0;
+  
+  return {
+    total: inserted + updated + deleted,
+    inserts: inserted,
+    updates: updated,
+    deletes: deleted,
+    conflicts,
+    queued: repaired
+  };
+}
+
+/**
+ * Push a queued todo operation to Supabase
+ * A todo can reach Supabase after its list or its parent was deleted there (by another
+ * device, while this one was offline); it is then pushed without them, and lands in the
+ * inbox or at the top level
+ * @param op The queued operation
+ */
+async function pushTodoOperation(op: PendingOperation): Promise<void> {
+  switch (op.type) {
+    case 'create':
+      await withoutMissingReferences(op, data => supabaseService.createTodo(data as Todo, op.mutationId));
+      break;
+      
+    case 'update':
+      await withoutMissingReferences(op, data => supabaseService.updateTodo(op.rowId, data, op.mutationId));
+      break;
+      
+    case 'delete':
+      await supabaseService.deleteTodo(op.rowId);
+      break;
+  }
+}
+
+/**
+ * Run a push, again without the todo's list or parent as long as Supabase rejects one of them
+ * as missing
+ * The local row loses them too once their deletion syncs
+ * @param op The queued operation
+ * @param push Pushes the given data of the operation
+ */
+async function withoutMissingReferences(op: PendingOperation, push: (data: any) => Promise<boolean>): Promise<void> {
+  let data = op.data;
+  for (;;) {
+    try {
+      await push(data);
+      return;
+    } catch (error) {
+      const column = getMissingReference(error, data);
+      if (!column) {
+        throw error;
+      }
+      
+      logger.warn(`${column} ${data[column]} of todo ${op.rowId} is gone remotely, pushing the todo without it`);
+      data = { ...data, [column]: null };
+    }
+  }
+}
+
+/**
+ * Get the reference column a failed push was rejected for
+ * The violated constraint is named after its column; the first reference set is assumed
+ * when the message doesn't tell
+ * @param error The error of the push
+ * @param data The pushed data
+ * @returns The column, or undefined if the push didn't fail on a missing reference
+ */
+function getMissingReference(error: unknown, data: any): string | undefined {
+  if (!(error instanceof SupabaseRequestError) || error.pgCode !== FOREIGN_KEY_VIOLATION) {
+    return undefined;
+  }
+  
+  const present = REFERENCE_COLUMNS.filter(column => data?.[column]);
+  return present.find(column => error.message.includes(column)) ?? present[0];
+}
+
+/**
+ * Get the list and the parent a queued todo operation puts the todo in
+ * Their creates have to reach Supabase first
+ * @param op The queued operation
+ */
+function getTodoDependencies(op: PendingOperation): RowReference[] {
+  const dependencies: RowReference[] = [];
+  if (op.data?.list_id) {
+    dependencies.push({ table: 'lists', rowId: op.data.list_id });
+  }
+  if (op.data?.parent_id) {
+    dependencies.push({ table: 'todos', rowId: op.data.parent_id });
+  }
+  return dependencies;
+}
+
+/**
+ * Parse the configured column list of the todos shape
+ * The field versions and mutation id columns are always synced, pushes can't be merged or
+ * confirmed without them
+ * @returns The columns, or undefined to sync all of them
+ */
+function getConfiguredColumns(): string[] | undefined {
+  const columns = configService.getString('TODOS_SHAPE_COLUMNS');
+  if (!columns) {
+    return undefined;
+  }
+  const configured = columns.split(',').map(column => column.trim()).filter(Boolean);
+  return [...configured, ...REQUIRED_COLUMNS.filter(column => !configured.includes(column))];
+}
+
+/**
+ * Todos shape definition
+ * TODOS_SHAPE_WHERE and TODOS_SHAPE_COLUMNS narrow down what is synced
+ */
+export const todoShape: ShapeDefinition = {
+  name: 'todos',
+  table: 'todos',
+  columns: getConfiguredColumns(),
+  where: configService.getString('TODOS_SHAPE_WHERE') || undefined,
+  schema: TODO_SCHEMA,
+  localTable: 'todos',
+  primaryKey: 'id',
+  rendererEvent: 'todos-updated',
+  apply: applyTodoEntries,
+  getPendingIds: () => offlineStorageService.getUnconfirmedRowIds('todos'),
+  resolveConflict: (conflict, values) => todoService.resolveConflict(conflict, values),
+  push: pushTodoOperation,
+  getDependencies: getTodoDependencies
+};
+
+export default todoShape;
@@ -0,0 +1,127 @@
+/**
+ * Conflict store
+ * Keeps remote changes that couldn't be merged with local edits until the user resolves them
+ */
+import Database from 'better-sqlite3';
+import { getLogger } from '../../logging';
+import { sqliteService } from '../../database';
+import type { SyncConflict } from '../../../@types/conflict';
+
+const logger = getLogger('ConflictStore');
+
+/**
+ * Row of the sync_conflicts table
+ */
+interface ConflictRow {
+  id: number;
+  table_name: string;
+  row_id: string;
+  columns: string;
+  local: string;
+  remote: string | null;
+  base: string;
+  detected_at: number;
+}
+
+/**
+ * Conflict store class
+ */
+export class ConflictStore {
+  /**
+   * Record a conflict
+   * A row has at most one open conflict: a later conflict of the same row is folded into
+   * it, with the latest local and remote values and the base it was first detected with
+   * @param db Database instance of the transaction that applies the remote change
+   * @param conflict The conflict
+   */
+  public record(db: Database.Database, conflict: Omit<SyncConflict, 'id' | 'detectedAt'>): void {
+    const existing = db.prepare(
+      'SELECT * FROM sync_conflicts WHERE table_name = ? AND row_id = ?'
+    ).get(conflict.table, conflict.rowId) as ConflictRow | undefined;
+    
+    if (!existing) {
+      db.prepare(
+        `INSERT INTO sync_conflicts (table_name, row_id, columns, local, remote, base, detected_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?)`
+      ).run(
+        conflict.table,
+        conflict.rowId,
+        JSON.stringify(conflict.columns),
+        JSON.stringify(conflict.local),
+        conflict.remote !== null ? JSON.stringify(conflict.remote) : null,
+        JSON.stringify(conflict.base),
+        Date.now()
+      );
+      logger.warn(`Conflict recorded for ${conflict.table} ${conflict.rowId} (${conflict.columns.join(', ') || 'row'})`);
+      return;
+    }
+    
+    const previous = this.toConflict(existing);
+    const columns = [...new Set([...previous.columns, ...conflict.columns])];
+    const remote = conflict.remote !== null ? { ...previous.remote, ...conflict.remote } : null;
+    
+    db.prepare(
+      'UPDATE sync_conflicts SET columns = ?, local = ?, remote = ?, base = ? WHERE id = ?'
+    ).run(
+      JSON.stringify(columns),
+      JSON.stringify({ ...previous.local, ...conflict.local }),
+      remote !== null ? JSON.stringify(remote) : null,
+      JSON.stringify({ ...conflict.base, ...previous.base }),
+      previous.id
+    );
+    logger.warn(`Conflict ${previous.id} of ${conflict.table} ${conflict.rowId} updated (${columns.join(', ') || 'row'})`);
+  }
+  
+  /**
+   * Get all open conflicts
+   * @returns Array of conflicts, oldest first
+   */
+  public getConflicts(): SyncConflict[] {
+    return sqliteService
+      .queryAll<ConflictRow>('SELECT * FROM sync_conflicts ORDER BY id')
+      .map(row => this.toConflict(row));
+  }
+  
+  /**
+   * Get an open conflict
+   * @param id The conflict id
+   * @returns The conflict, or undefined if there is no such conflict
+   */
+  public getConflict(id: number): SyncConflict | undefined {
+    const row = sqliteService.queryOne<ConflictRow>('SELECT * FROM sync_conflicts WHERE id = ?', [id]);
+    return row ? this.toConflict(row) : undefined;
+  }
+  
+  /**
+   * Remove a resolved conflict
+   * @param id The conflict id
+   * @param db Database instance of the transaction that writes the resolution
+   * @returns True if the conflict was removed
+   */
+  public removeConflict(id: number, db?: Database.Database): boolean {
+    const result = db
+      ? db.prepare('DELETE FROM sync_conflicts WHERE id = ?').run(id)
+      : sqliteService.execute('DELETE FROM sync_conflicts WHERE id = ?', [id]);
+    return result.changes > 0;
+  }
+  
+  /**
+   * Convert a sync_conflicts row into a conflict
+   */
+  private toConflict(row: ConflictRow): SyncConflict {
+    return {
+      id: row.id,
+      table: row.table_name,
+      rowId: row.row_id,
+      columns: JSON.parse(row.columns),
+      local: JSON.parse(row.local),
+      remote: row.remote !== null ? JSON.parse(row.remote) : null,
+      base: JSON.parse(row.base),
+      detectedAt: row.detected_at
+    };
+  }
+}
+
+// Export as singleton
+export const conflictStore = new ConflictStore();
+export default conflictStore;
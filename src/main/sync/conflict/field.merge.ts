@@ -0,0 +1,142 @@
+/**
+ * Field-level merge
+ * Last-writer-wins per column, decided by the field versions kept with every row
+ */
+import { SyncConflictError } from '../../error/app.error';
+
+/**
+ * Time (ms) of the last write of each column of a row
+ */
+export type FieldVersions = Record<string, number>;
+
+/**
+ * A remote change of a row, and the local state it lands on
+ */
+export interface FieldMergeInput {
+  /** Table of the row, for the conflict report */
+  table: string;
+  /** Serialized key of the row, for the conflict report */
+  rowId: string;
+  /** Columns carried by the remote change, with values in their remote representation */
+  remote: Record<string, unknown>;
+  /** Field versions carried by the remote change, undefined if it carried none */
+  remoteVersions?: FieldVersions;
+  /** Current local values, in the same representation as the remote ones */
+  local: Record<string, unknown>;
+  /** Current local field versions */
+  localVersions: FieldVersions;
+  /** Columns with local changes Supabase hasn't confirmed yet */
+  pendingColumns: Set<string>;
+}
+
+/**
+ * Outcome of merging a remote change
+ */
+export interface FieldMergeResult {
+  /** Columns to write, with their remote values */
+  values: Record<string, unknown>;
+  /** Field versions of the merged row */
+  versions: FieldVersions;
+  /** Set if some columns couldn't be merged, they keep their local values */
+  conflict?: SyncConflictError;
+}
+
+/**
+ * Parse stored field versions
+ * @param value A JSON string or an object, as stored locally or decoded from the shape
+ * @returns The versions, empty if the value is missing or malformed
+ */
+export function parseFieldVersions(value: unknown): FieldVersions {
+  let parsed = value;
+  if (typeof value === 'string') {
+    try {
+      parsed = JSON.parse(value);
+    } catch {
+      return {};
+    }
+  }
+  
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    return {};
+  }
+  
+  const versions: FieldVersions = {};
+  for (const [column, version] of Object.entries(parsed as Record<string, unknown>)) {
+    if (typeof version === 'number' && Number.isFinite(version)) {
+      versions[column] = version;
+    }
+  }
+  return versions;
+}
+
+/**
+ * Decide between two writes of the same column
+ * The newer version wins; equal versions go to the larger JSON value, the same rule the
+ * todos trigger in supabase/schema.sql applies, so every replica ends up with the same value
+ * @returns True if write a wins over write b
+ */
+export function isNewerWrite(aVersion: number, aValue: unknown, bVersion: number, bValue: unknown): boolean {
+  if (aVersion !== bVersion) {
+    return aVersion > bVersion;
+  }
+  return JSON.stringify(aValue ?? null) > JSON.stringify(bValue ?? null);
+}
+
+/**
+ * Merge a remote change into the local state of a row
+ * Columns without unconfirmed local changes take the remote value, Supabase has merged them
+ * already. Columns changed on both sides go to the newer write. A column changed on both
+ * sides whose versions aren't both known can't be ordered: it keeps the local value and is
+ * reported as a conflict
+ * @param input The remote change and the local state
+ * @returns The columns to write and the merged versions
+ */
+export function mergeFields(input: FieldMergeInput): FieldMergeResult {
+  const values: Record<string, unknown> = {};
+  const versions: FieldVersions = { ...input.localVersions };
+  const conflicting: string[] = [];
+  
+  for (const [column, remoteValue] of Object.entries(input.remote)) {
+    const remoteVersion = input.remoteVersions?.[column];
+    
+    if (!input.pendingColumns.has(column)) {
+      values[column] = remoteValue;
+      if (remoteVersion !== undefined) {
+        versions[column] = remoteVersion;
+      }
+      continue;
+    }
+    
+    const localVersion = input.localVersions[column];
+    if (remoteVersion === undefined || localVersion === undefined) {
+      conflicting.push(column);
+      continue;
+    }
+    
+    if (isNewerWrite(remoteVersion, remoteValue, localVersion, input.local[column])) {
+      values[column] = remoteValue;
+      versions[column] = remoteVersion;
+    }
+  }
+  
+  const result: FieldMergeResult = { values, versions };
+  if (conflicting.length > 0) {
+    result.conflict = new SyncConflictError(
+      `Remote change of ${input.table} ${input.rowId} can't be merged with local edits of ${conflicting.join(', ')}`,
+      input.table,
+      input.rowId,
+      conflicting
+    );
+  }
+  return result;
+}
+
+/**
+ * Get the row-level update time of merged field versions
+ * @param versions Field versions of the row
+ * @returns ISO timestamp of the newest write, or undefined if no column is versioned
+ */
+export function getUpdatedAt(versions: FieldVersions): string | undefined {
+  const latest = Math.max(...Object.values(versions));
+  return Number.isFinite(latest) ? new Date(latest).toISOString() : undefined;
+}
@@ -0,0 +1,10 @@
+/**
+ * Conflict module index file
+ * Exports the field-level merge, the conflict store and types
+ */
+import { mergeFields, parseFieldVersions, isNewerWrite, getUpdatedAt } from './field.merge';
+import { conflictStore, ConflictStore } from './conflict.store';
+import type { FieldVersions, FieldMergeInput, FieldMergeResult } from './field.merge';
+
+export { mergeFields, parseFieldVersions, isNewerWrite, getUpdatedAt, ConflictStore, conflictStore };
+export type { FieldVersions, FieldMergeInput, FieldMergeResult };
@@ -12,10 +12,10 @@ import {
   syncCoordinator, 
   SyncCoordinator
 } from './sync.coordinator';
-import type { SyncResult, PendingOperationsResult } from './sync.coordinator';
+import type { SyncResult, PendingOperationsResult, PushOutcome, ShapeRebuildResult } from './sync.coordinator';
 
 export { ConnectionMonitor, connectionMonitor, SyncCoordinator, syncCoordinator };
-export type { ConnectionStatus, SyncResult, PendingOperationsResult };
+export type { ConnectionStatus, SyncResult, PendingOperationsResult, PushOutcome, ShapeRebuildResult };
 
 export default {
   connectionMonitor,
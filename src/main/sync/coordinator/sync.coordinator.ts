@@ -3,19 +3,27 @@
  * Central orchestrator for synchronization between local database and cloud
  */
 import { EventEmitter } from 'events';
-import { BrowserWindow } from 'electron';
+import { BrowserWindow, powerMonitor } from 'electron';
 import configService from '../../config';
 import { getLogger } from '../../logging';
-import { DatabaseError, SyncError, NetworkError } from '../../error/app.error';
+import { DatabaseError, SyncError, SyncConflictError, NetworkError, ShapeRefetchError, ShapeDecodeError } from '../../error/app.error';
+import { handleError } from '../../error';
 import { sqliteService } from '../../database';
-import { electricClient, shapeProcessor, ProcessedShapeEntry } from '../electric';
+import { electricClient, shapeProcessor, shapeCursorStore, getPrimaryKeyColumns, serializeRowKey, ProcessedShapeEntry, RejectedShapeEntry, RowKey, ShapeCursor, ShapeLogBatch, ShapeSchema } from '../electric';
 import { supabaseService } from '../supabase';
-import { offlineStorageService } from '../offline';
+import { offlineStorageService, PendingOperation, FailureOutcome } from '../offline';
+import { shapeRegistry, ShapeDefinition, ShapeApplyResult } from '../shapes';
+import { conflictStore } from '../conflict';
 import { connectionMonitor, ConnectionStatus } from './connection.monitor';
-import { Todo } from '../../../@types/todo';
+import { DeadLetter } from '../../../@types/outbox';
+import { ConflictResolution, SyncConflict } from '../../../@types/conflict';
 
 const logger = getLogger('SyncCoordinator');
 
+// Retry delays for the live subscription after a failed request
+const LIVE_RETRY_MIN_DELAY = 1000;
+const LIVE_RETRY_MAX_DELAY = 30000;
+
 /**
  * Sync result interface
  */
@@ -35,6 +43,25 @@ export interface PendingOperationsResult {
   processed: number;
   succeeded: number;
   failed: number;
+  /** Failed operations moved to the dead letters */
+  deadLettered: number;
+  /** Operations left for later, backing off or queued behind a failed operation of their row */
+  deferred: number;
+}
+
+/**
+ * Outcome of pushing a single outbox operation
+ */
+export type PushOutcome = 'pushed' | 'deferred' | FailureOutcome;
+
+/**
+ * Shape rebuild result interface
+ */
+export interface ShapeRebuildResult {
+  shape: string;
+  snapshot: number;
+  removed: number;
+  keptPending: number;
 }
 
 /**
@@ -43,8 +70,11 @@ export interface PendingOperationsResult {
 export interface SyncCoordinatorEvents {
   'sync-status-change': (status: ConnectionStatus) => void;
   'sync-completed': (result: SyncResult) => void;
+  'shape-rebuilt': (result: ShapeRebuildResult) => void;
+  'shape-rejected': (shapeName: string, rejected: RejectedShapeEntry[]) => void;
   'pending-operations-processed': (result: PendingOperationsResult) => void;
-  'data-changed': () => void;
+  'data-changed': (shapeName?: string) => void;
+  'sync-conflict': (conflict: SyncConflictError) => void;
 }
 
 /**
@@ -57,17 +87,48 @@ export class SyncCoordinator extends EventEmitter {
   private syncInterval: number;
   private syncIntervalTimer: NodeJS.Timeout | null = null;
   private isSyncing: boolean = false;
+  private currentSync: Promise<SyncResult> | null = null;
+  private liveSyncEnabled: boolean;
+  private liveSyncActive: boolean = false;
+  private liveLoops: Set<string> = new Set();
+  private livePolls: Map<string, Promise<SyncResult>> = new Map();
+  private liveWakers: Set<() => void> = new Set();
+  private outboxRetryTimer: NodeJS.Timeout | null = null;
+  private currentPush: Promise<PendingOperationsResult> | null = null;
+  private outboxPushRequested: boolean = false;
+  
+  // Rows each shape's last rebuild couldn't decode and left out, by serialized key (raw key if
+  // the key itself was rejected). Kept in memory, so after a restart they cost one more rebuild
+  private droppedRows: Map<string, Set<string>> = new Map();
   
   constructor() {
     super();
     
     // Get sync interval from config
     this.syncInterval = configService.getOrDefault('SYNC_INTERVAL', 30000, 'number');
+    this.liveSyncEnabled = configService.getOrDefault('LIVE_SYNC', true, 'boolean');
     
-    logger.info(`Initializing sync coordinator with interval: ${this.syncInterval}ms`);
+    logger.info(`Initializing sync coordinator with interval: ${this.syncInterval}ms, live sync: ${this.liveSyncEnabled ? 'enabled' : 'disabled'}`);
     
     // Setup connection monitor event handlers
     this.setupConnectionMonitor();
+    
+    // Follow shapes registered after live sync started, and stop following removed ones
+    shapeRegistry.on('shape-registered', shape => {
+      if (this.liveSyncActive) {
+        this.startShapeLoop(shape);
+      }
+    });
+    shapeRegistry.on('shape-unregistered', shape => {
+      electricClient.abortLiveRequest(shape.name);
+    });
+    
+    // A changed filter invalidates the shape's cursor, the next request resubscribes from scratch
+    shapeRegistry.on('shape-updated', shape => {
+      logger.info(`Filter of shape "${shape.name}" changed, resubscribing`);
+      electricClient.abortLiveRequest(shape.name);
+      this.wakeLiveLoops();
+    });
   }
   
   /**
@@ -77,6 +138,9 @@ export class SyncCoordinator extends EventEmitter {
     logger.info('Initializing sync coordinator');
     
     try {
+      // Bring the outbox up to date before anything can be queued
+      offlineStorageService.initialize();
+      
       // Initialize Electric client
       await electricClient.initialize();
       
@@ -86,12 +150,22 @@ export class SyncCoordinator extends EventEmitter {
       // Get initial sync status
       this.syncStatus = connectionMonitor.getStatus();
       
+      // Restart the live subscription after sleep, the held request is most likely dead
+      powerMonitor.on('resume', () => {
+        logger.info('System resumed, restarting live sync');
+        this.restartLiveSync();
+        connectionMonitor.forceCheck().catch(error => {
+          logger.error('Connection check after resume failed', error);
+        });
+      });
+      
       // Start periodic sync if online
       if (this.syncStatus === 'online') {
         this.startPeriodicSync();
         
-        // Initial sync
+        // Initial sync, then keep following the shape log
         await this.syncWithSupabase();
+        this.startLiveSync();
       }
       
       logger.info(`Sync coordinator initialized, status: ${this.syncStatus}`);
@@ -128,36 +202,50 @@ export class SyncCoordinator extends EventEmitter {
           // Sync with Supabase if Electric is online
           if (connectionMonitor.isElectricOnline()) {
             await this.syncWithSupabase();
+            this.startLiveSync();
           }
         } catch (error) {
           logger.error('Error processing operations or syncing after connection restored', error);
         }
       } 
       else if (previousStatus === 'online' && status === 'offline') {
-        logger.info('Connection lost, stopping periodic sync');
+        logger.info('Connection lost, stopping periodic and live sync');
         this.stopPeriodicSync();
+        this.stopLiveSync();
       }
     });
     
     // Listen for electric-specific status changes
     connectionMonitor.on('electric-status-change', async (isOnline) => {
-      if (isOnline && this.syncStatus === 'online' && !this.isSyncing) {
+      if (!isOnline) {
+        this.stopLiveSync();
+        return;
+      }
+      
+      if (this.syncStatus === 'online' && !this.isSyncing) {
         logger.info('Electric came online, triggering sync');
-        await this.syncWithSupabase();
+        try {
+          await this.syncWithSupabase();
+        } catch (error) {
+          logger.error('Error syncing after Electric came online', error);
+        }
       }
+      this.startLiveSync();
     });
     
     // Listen for supabase-specific status changes
-    connectionMonitor.on('supabase-status-change', async (isOnline) => {
-      if (isOnline && this.syncStatus === 'online' && offlineStorageService.hasPendingOperations()) {
-        logger.info('Supabase came online and we have pending operations, processing them');
-        await this.processPendingOperations();
+    connectionMonitor.on('supabase-status-change', (isOnline) => {
+      if (isOnline && offlineStorageService.hasPendingOperations()) {
+        logger.info('Supabase came online and we have pending operations, pushing them');
+        this.requestOutboxPush();
       }
     });
   }
   
   /**
    * Start periodic sync with Supabase
+   * Acts as a fallback for the live subscription: every live response refreshes
+   * lastSyncTime, so the timer only fires a sync when live requests have stalled
    */
   private startPeriodicSync(): void {
     if (this.syncIntervalTimer) {
@@ -195,26 +283,155 @@ export class SyncCoordinator extends EventEmitter {
     }
   }
   
+  /**
+   * Start the live subscription to every registered shape
+   */
+  private startLiveSync(): void {
+    if (!this.liveSyncEnabled || this.liveSyncActive) {
+      return;
+    }
+    
+    logger.info('Starting live sync');
+    this.liveSyncActive = true;
+    
+    for (const shape of shapeRegistry.getAll()) {
+      this.startShapeLoop(shape);
+    }
+  }
+  
+  /**
+   * Start the live loop of a single shape, unless it is already running
+   * @param shape The shape to follow
+   */
+  private startShapeLoop(shape: ShapeDefinition): void {
+    if (this.liveLoops.has(shape.name)) {
+      return;
+    }
+    
+    this.liveLoops.add(shape.name);
+    this.runLiveSync(shape.name)
+      .catch(error => {
+        logger.error(`Live sync loop of "${shape.name}" terminated unexpectedly`, error);
+      })
+      .finally(() => {
+        this.liveLoops.delete(shape.name);
+      });
+  }
+  
+  /**
+   * Stop the live subscription and cancel its in-flight requests
+   */
+  private stopLiveSync(): void {
+    if (!this.liveSyncActive) {
+      return;
+    }
+    
+    logger.info('Stopping live sync');
+    this.liveSyncActive = false;
+    electricClient.abortLiveRequest();
+    this.wakeLiveLoops();
+  }
+  
+  /**
+   * Drop the in-flight live requests and retry right away
+   */
+  private restartLiveSync(): void {
+    electricClient.abortLiveRequest();
+    this.wakeLiveLoops();
+  }
+  
+  /**
+   * Cut short the retry delay of every live loop
+   */
+  private wakeLiveLoops(): void {
+    for (const wake of [...this.liveWakers]) {
+      wake();
+    }
+  }
+  
+  /**
+   * Live subscription loop of a single shape
+   * Catches up with the shape log, then long-polls and applies each batch as it arrives.
+   * The definition is looked up on every iteration so filter changes are picked up.
+   * @param name Name of the shape to follow
+   */
+  private async runLiveSync(name: string): Promise<void> {
+    let retryDelay = LIVE_RETRY_MIN_DELAY;
+    
+    while (this.liveSyncActive) {
+      const shape = shapeRegistry.get(name);
+      if (!shape) {
+        break;
+      }
+      
+      // Never fetch concurrently with a one-shot sync, they share the same cursor
+      if (this.currentSync) {
+        await this.currentSync.catch(() => undefined);
+        continue;
+      }
+      
+      try {
+        if (!electricClient.isConnected()) {
+          throw new NetworkError('Electric is not reachable');
+        }
+        
+        const poll = this.pullShapeChanges(shape, electricClient.isUpToDate(shape.name));
+        this.livePolls.set(shape.name, poll);
+        await poll;
+        retryDelay = LIVE_RETRY_MIN_DELAY;
+      } catch (error) {
+        if (!this.liveSyncActive) {
+          break;
+        }
+        
+        logger.warn(`Live sync request for "${name}" failed, retrying in ${retryDelay / 1000} seconds`, error);
+        await this.waitForLiveRetry(retryDelay);
+        retryDelay = Math.min(retryDelay * 2, LIVE_RETRY_MAX_DELAY);
+        
+        // The client marks itself offline on network errors, re-check before the next attempt
+        if (error instanceof NetworkError) {
+          electricClient.setConnectionStatus(await electricClient.checkConnection());
+        }
+      } finally {
+        this.livePolls.delete(name);
+      }
+    }
+    
+    logger.info(`Live sync of "${name}" stopped`);
+  }
+  
+  /**
+   * Wait before retrying a live request, can be cut short by restartLiveSync/stopLiveSync
+   * @param ms Delay in milliseconds
+   */
+  private waitForLiveRetry(ms: number): Promise<void> {
+    return new Promise(resolve => {
+      const wake = () => {
+        clearTimeout(timer);
+        this.liveWakers.delete(wake);
+        resolve();
+      };
+      const timer = setTimeout(wake, ms);
+      
+      this.liveWakers.add(wake);
+    });
+  }
+  
   /**
    * Process pending operations when coming back online
+   * Verifies the Supabase connection and shows the syncing status while the outbox is pushed
    */
   public async processPendingOperations(): Promise<PendingOperationsResult> {
-    const pendingOps = offlineStorageService.getPendingOperations();
+    const pendingCount = offlineStorageService.getPendingOperationsCount();
     
-    const result: PendingOperationsResult = {
-      total: pendingOps.length,
-      processed: 0,
-      succeeded: 0,
-      failed: 0
-    };
-    
-    if (pendingOps.length === 0) {
+    if (pendingCount === 0) {
       logger.info('No pending operations to process');
+      const result = this.createPendingOperationsResult(0);
       this.emit('pending-operations-processed', result);
       return result;
     }
     
-    logger.info(`Processing ${pendingOps.length} pending operations`);
+    logger.info(`Processing ${pendingCount} pending operations`);
     
     // Set status to syncing
     const previousStatus = this.syncStatus;
@@ -233,6 +450,7 @@ export class SyncCoordinator extends EventEmitter {
         this.notifyRendererStatusChange(previousStatus);
         connectionMonitor.syncCompleted();
         
+        const result = this.createPendingOperationsResult(pendingCount);
         this.emit('pending-operations-processed', result);
         return result;
       }
@@ -244,83 +462,260 @@ export class SyncCoordinator extends EventEmitter {
       this.notifyRendererStatusChange(previousStatus);
       connectionMonitor.syncCompleted();
       
+      const result = this.createPendingOperationsResult(pendingCount);
       this.emit('pending-operations-processed', result);
       return result;
     }
     
-    // Process operations by type to ensure correct order (creates before updates before deletes)
-    const creates = pendingOps.filter(op => op.type === 'create');
-    const updates = pendingOps.filter(op => op.type === 'update');
-    const deletes = pendingOps.filter(op => op.type === 'delete');
+    let result: PendingOperationsResult;
+    try {
+      result = await this.pushOutbox();
+    } finally {
+      // Restore status based on connection monitor
+      connectionMonitor.syncCompleted();
+      this.syncStatus = connectionMonitor.getStatus();
+      this.notifyRendererStatusChange(this.syncStatus);
+    }
     
-    // Process in order: creates, updates, deletes
-    const allOperations = [...creates, ...updates, ...deletes];
+    return result;
+  }
+  
+  /**
+   * Ask the background pusher to drain the outbox
+   * Returns at once, so a mutation returns after its local commit without waiting for
+   * Supabase; called after local writes and when Supabase becomes reachable.
+   * Without a known Supabase connection the push waits for the next connectivity change
+   */
+  public requestOutboxPush(): void {
+    if (!connectionMonitor.isSupabaseOnline()) {
+      logger.debug('Supabase is offline, outbox push waits for the connection to return');
+      return;
+    }
     
-    for (const op of allOperations) {
+    this.pushOutbox().catch(error => {
+      logger.error('Error pushing the outbox in the background', error);
+    });
+  }
+  
+  /**
+   * Drain the outbox, one run at a time
+   * A request made while a run is in progress is picked up by another pass once it ends,
+   * so writes made during a push are never left behind
+   * @returns Combined result of the passes
+   */
+  private pushOutbox(): Promise<PendingOperationsResult> {
+    if (this.currentPush) {
+      this.outboxPushRequested = true;
+      return this.currentPush;
+    }
+    
+    this.currentPush = (async () => {
+      const total = this.createPendingOperationsResult(0);
       try {
-        let success = false;
-        
-        switch (op.type) {
-          case 'create':
-            logger.info(`Processing create operation for todo ${op.todoId}`);
-            success = await supabaseService.createTodo(op.data as Todo);
-            break;
-            
-          case 'update':
-            logger.info(`Processing update operation for todo ${op.todoId}`);
-            success = await supabaseService.updateTodo(op.todoId, op.data);
-            break;
-            
-          case 'delete':
-            logger.info(`Processing delete operation for todo ${op.todoId}`);
-            success = await supabaseService.deleteTodo(op.todoId);
-            break;
-        }
-        
-        result.processed++;
-        
-        if (success) {
-          // Clear the operation after successful sync
-          offlineStorageService.clearPendingOperation(op.todoId, op.type);
-          result.succeeded++;
-          logger.debug(`Successfully processed ${op.type} operation for todo ${op.todoId}`);
-        } else {
-          result.failed++;
-          logger.error(`Failed to process ${op.type} operation for todo ${op.todoId}`);
-        }
-      } catch (error) {
+        do {
+          this.outboxPushRequested = false;
+          const pass = await this.drainOutbox();
+          total.total += pass.total;
+          total.processed += pass.processed;
+          total.succeeded += pass.succeeded;
+          total.failed += pass.failed;
+          total.deadLettered += pass.deadLettered;
+          total.deferred = pass.deferred;
+        } while (this.outboxPushRequested && connectionMonitor.isSupabaseOnline());
+        return total;
+      } finally {
+        this.currentPush = null;
+      }
+    })();
+    
+    return this.currentPush;
+  }
+  
+  /**
+   * Push every outbox operation that is due, in the order the operations were made
+   * @returns Result of the pass
+   */
+  private async drainOutbox(): Promise<PendingOperationsResult> {
+    const expired = offlineStorageService.expireUnconfirmedOperations();
+    
+    const pendingOps = offlineStorageService.getPendingOperations();
+    const result = this.createPendingOperationsResult(pendingOps.length);
+    
+    // Once an operation of a row fails or has to wait, the later operations of that row wait too
+    const blockedRows = new Set<string>();
+    
+    for (const op of pendingOps) {
+      if (blockedRows.has(`${op.table}:${op.rowId}`)) {
+        logger.debug(`Deferring ${op.type} operation for ${op.table} ${op.rowId}, an earlier operation of the row is waiting`);
+        result.deferred++;
+        continue;
+      }
+      
+      const outcome = await this.pushOperation(op);
+      
+      if (outcome === 'pushed') {
         result.processed++;
-        result.failed++;
-        logger.error(`Error processing ${op.type} operation for todo ${op.todoId}`, error);
-        
-        // If it's a network error, stop processing
-        if (error instanceof NetworkError) {
-          logger.error('Network error detected, stopping pending operations processing');
-          break;
-        }
+        result.succeeded++;
+        logger.debug(`Successfully processed ${op.type} operation for ${op.table} ${op.rowId}`);
+        continue;
+      }
+      
+      blockedRows.add(`${op.table}:${op.rowId}`);
+      
+      if (outcome === 'deferred') {
+        result.deferred++;
+        continue;
+      }
+      
+      result.processed++;
+      result.failed++;
+      if (outcome === 'dead-lettered') {
+        result.deadLettered++;
+      }
+      
+      // If it's a network error, stop processing and let the connection monitor catch up
+      if (outcome === 'network') {
+        logger.error('Network error detected, stopping pending operations processing');
+        connectionMonitor.forceCheck().catch(error => {
+          logger.error('Connection check after a failed push failed', error);
+        });
+        break;
       }
     }
     
-    logger.info(`Completed processing pending operations: ${result.succeeded} succeeded, ${result.failed} failed`);
+    this.scheduleOutboxRetry();
     
-    // Notify renderer that data might have changed
-    if (result.succeeded > 0) {
-      this.notifyRendererDataChanged();
+    if (result.total > 0) {
+      logger.info(`Completed processing pending operations: ${result.succeeded} succeeded, ${result.failed} failed (${result.deadLettered} dead-lettered), ${result.deferred} deferred`);
     }
     
-    // Restore status based on connection monitor
-    connectionMonitor.syncCompleted();
-    this.syncStatus = connectionMonitor.getStatus();
-    this.notifyRendererStatusChange(this.syncStatus);
+    // Notify renderer that data and the sync state of rows might have changed
+    if (result.processed > 0 || expired > 0) {
+      this.notifyRendererDataChanged();
+    }
     
-    // Emit event
     this.emit('pending-operations-processed', result);
     
     return result;
   }
   
+  /**
+   * Create an empty pending operations result
+   * @param total Number of operations in the outbox
+   */
+  private createPendingOperationsResult(total: number): PendingOperationsResult {
+    return {
+      total,
+      processed: 0,
+      succeeded: 0,
+      failed: 0,
+      deadLettered: 0,
+      deferred: 0
+    };
+  }
+  
+  /**
+   * Push a single outbox operation to Supabase, through the shape stored in its table
+   * On success the operation waits in the outbox for Electric to echo it back; failures are
+   * handed to the outbox's retry policy
+   * @param op The queued operation
+   * @returns What became of the operation; 'deferred' if it was not pushed because it is
+   *   backing off or another operation of the row, or of a row it depends on, has to go first
+   */
+  public async pushOperation(op: PendingOperation): Promise<PushOutcome> {
+    const shape = shapeRegistry.getByLocalTable(op.table);
+    const dependencies = shape?.getDependencies?.(op) ?? [];
+    
+    if (!offlineStorageService.beginOperation(op, dependencies)) {
+      logger.debug(`Not pushing ${op.type} operation ${op.id} for ${op.table} ${op.rowId} yet, it is backing off or queued behind another operation`);
+      return 'deferred';
+    }
+    
+    try {
+      if (!shape?.push) {
+        throw new SyncError(`No shape pushes operations of table ${op.table}`);
+      }
+      
+      logger.info(`Processing ${op.type} operation for ${op.table} ${op.rowId}`);
+      await shape.push(op);
+    } catch (error) {
+      logger.error(`Error processing ${op.type} operation for ${op.table} ${op.rowId}`, error);
+      
+      const outcome = offlineStorageService.failOperation(op, error);
+      if (outcome === 'dead-lettered') {
+        this.notifyRendererDeadLettersChanged();
+      } else if (outcome === 'retrying') {
+        this.scheduleOutboxRetry();
+      }
+      return outcome;
+    }
+    
+    offlineStorageService.markOperationPushed(op.id);
+    return 'pushed';
+  }
+  
+  /**
+   * Get the operations given up on after failed pushes
+   * @returns Array of dead letters
+   */
+  public getDeadLetters(): DeadLetter[] {
+    return offlineStorageService.getDeadLetters();
+  }
+  
+  /**
+   * Requeue a dead-lettered operation and push the outbox again in the background
+   * @param id Outbox id of the operation
+   * @returns True if the operation was requeued
+   */
+  public retryDeadLetter(id: number): boolean {
+    const requeued = offlineStorageService.retryDeadLetter(id);
+    if (requeued) {
+      this.notifyRendererDeadLettersChanged();
+      this.notifyRendererDataChanged();
+      this.requestOutboxPush();
+    }
+    return requeued;
+  }
+  
+  /**
+   * Discard a dead-lettered operation
+   * @param id Outbox id of the operation
+   * @returns True if the dead letter was removed
+   */
+  public discardDeadLetter(id: number): boolean {
+    const discarded = offlineStorageService.discardDeadLetter(id);
+    if (discarded) {
+      this.notifyRendererDeadLettersChanged();
+      this.notifyRendererDataChanged();
+    }
+    return discarded;
+  }
+  
+  /**
+   * Schedule processing of the outbox for when the earliest backed-off operation is due
+   */
+  private scheduleOutboxRetry(): void {
+    const nextRetry = offlineStorageService.getNextRetryTime();
+    if (nextRetry === undefined) {
+      return;
+    }
+    
+    if (this.outboxRetryTimer) {
+      clearTimeout(this.outboxRetryTimer);
+    }
+    
+    const delay = Math.max(0, nextRetry - Date.now());
+    logger.debug(`Next outbox retry in ${Math.round(delay / 1000)}s`);
+    
+    this.outboxRetryTimer = setTimeout(() => {
+      this.outboxRetryTimer = null;
+      this.requestOutboxPush();
+    }, delay);
+  }
+  
   /**
    * Sync with Supabase via ElectricSQL
+   * One-shot catch-up request; cancels a pending live request so it doesn't hold up the caller
    */
   public async syncWithSupabase(): Promise<SyncResult> {
     if (this.isSyncing) {
@@ -335,7 +730,32 @@ export class SyncCoordinator extends EventEmitter {
     }
     
     this.isSyncing = true;
+    this.currentSync = this.runSync();
     
+    try {
+      return await this.currentSync;
+    } finally {
+      this.currentSync = null;
+      this.isSyncing = false;
+    }
+  }
+  
+  /**
+   * Sync and wait for the result
+   * Unlike syncWithSupabase, a sync already in progress is not a reason to skip: it may have
+   * started before the caller's request, so a fresh one runs after it
+   */
+  public async refresh(): Promise<SyncResult> {
+    while (this.currentSync) {
+      await this.currentSync.catch(() => undefined);
+    }
+    return this.syncWithSupabase();
+  }
+  
+  /**
+   * Run a one-shot sync, updating the sync status around it
+   */
+  private async runSync(): Promise<SyncResult> {
     try {
       this.syncStatus = 'syncing';
       this.notifyRendererStatusChange('syncing');
@@ -343,52 +763,29 @@ export class SyncCoordinator extends EventEmitter {
       
       logger.info('Starting sync from Supabase via Electric');
       
-      // Fetch shape log entries
-      const rawEntries = await electricClient.fetchShapeLog();
-      
-      // Process shape log entries
-      const processedEntries = shapeProcessor.processShapeLogEntries(rawEntries);
+      // Let the live loops settle before reusing their cursors
+      if (this.livePolls.size > 0) {
+        electricClient.abortLiveRequest();
+        await Promise.allSettled([...this.livePolls.values()]);
+      }
       
       const result: SyncResult = {
-        received: processedEntries.length,
+        received: 0,
         processed: 0,
         inserts: 0,
         updates: 0,
         deletes: 0
       };
       
-      if (processedEntries.length > 0) {
-        logger.info(`Processing ${processedEntries.length} synced changes`);
-        
-        try {
-          // Apply changes to local database
-          const applyResult = await this.applyChangesToDb(processedEntries);
-          
-          result.processed = applyResult.total;
-          result.inserts = applyResult.inserts;
-          result.updates = applyResult.updates;
-          result.deletes = applyResult.deletes;
-          
-          logger.info(`Sync applied: ${result.inserts} inserted/replaced, ${result.updates} updated, ${result.deletes} deleted`);
-          
-          // Notify renderer that data changed if any changes were applied
-          if (result.inserts > 0 || result.updates > 0 || result.deletes > 0) {
-            this.notifyRendererDataChanged();
-          }
-        } catch (error) {
-          logger.error('Error applying changes to database', error);
-          throw new SyncError(`Error applying changes to database: ${(error as Error).message}`);
-        }
-      } else {
-        logger.info('Sync successful but no new data changes to process');
+      for (const shape of shapeRegistry.getAll()) {
+        const shapeResult = await this.pullShapeChanges(shape, false);
+        result.received += shapeResult.received;
+        result.processed += shapeResult.processed;
+        result.inserts += shapeResult.inserts;
+        result.updates += shapeResult.updates;
+        result.deletes += shapeResult.deletes;
       }
       
-      // Update last sync time
-      this.lastSyncTime = Date.now();
-      
-      // Emit sync completed event
-      this.emit('sync-completed', result);
-      
       // Restore status based on connection monitor
       connectionMonitor.syncCompleted();
       this.syncStatus = connectionMonitor.getStatus();
@@ -416,109 +813,378 @@ export class SyncCoordinator extends EventEmitter {
       this.notifyRendererStatusChange(this.syncStatus);
       
       throw error;
-    } finally {
-      this.isSyncing = false;
     }
   }
   
   /**
-   * Apply changes to local database
-   * @param entries Processed shape entries
+   * Fetch one batch from a shape log and apply it to the local database
+   * @param shape The shape to pull
+   * @param live Long-poll for the next batch instead of returning immediately
    */
-  private async applyChangesToDb(entries: ProcessedShapeEntry[]): Promise<{
-    total: number;
-    inserts: number;
-    updates: number;
-    deletes: number;
-  }> {
-    let inserted = 0;
-    let updated = 0;
-    let deleted = 0;
+  private async pullShapeChanges(shape: ShapeDefinition, live: boolean): Promise<SyncResult> {
+    // Fetch shape log entries
+    let batch: ShapeLogBatch;
+    try {
+      batch = await electricClient.fetchShapeLog(shape, { live });
+    } catch (error) {
+      if (error instanceof ShapeRefetchError) {
+        return this.resetSyncOffset(shape.name, error);
+      }
+      throw error;
+    }
+    
+    // Process shape log entries
+    const schema = this.getShapeSchema(shape, batch);
+    const processed = shapeProcessor.processShapeLogEntries(batch.entries, schema, getPrimaryKeyColumns(schema, shape.primaryKey));
+    
+    // Applying the rest and moving past the rejected entries would leave their rows stale;
+    // the batch is dropped, cursor included, and the shape rebuilt from a fresh snapshot.
+    // Rows the last rebuild already left out are left out again instead of rebuilding on
+    // every change to them, until one of them decodes again
+    const dropped = this.droppedRows.get(shape.name) ?? new Set<string>();
+    const rejected = processed.rejected.filter(entry => !dropped.has(entry.id ?? entry.key));
+    if (rejected.length > 0) {
+      this.reportRejectedEntries(shape, rejected);
+      return this.resetSyncOffset(shape.name, new ShapeRefetchError(
+        `${rejected.length} entries could not be decoded`,
+        'SHAPE_DECODE_ERROR'
+      ));
+    }
+    if (processed.entries.some(entry => dropped.has(entry.id))) {
+      return this.resetSyncOffset(shape.name, new ShapeRefetchError(
+        'Rows left out by the last rebuild can be decoded again',
+        'SHAPE_DECODE_ERROR'
+      ));
+    }
+    if (processed.rejected.length > 0) {
+      logger.warn(`Skipping ${processed.rejected.length} entries of shape "${shape.name}" for rows left out by the last rebuild`);
+    }
+    
+    const processedEntries = processed.entries;
+    
+    const result: SyncResult = {
+      received: processedEntries.length,
+      processed: 0,
+      inserts: 0,
+      updates: 0,
+      deletes: 0
+    };
+    
+    if (processedEntries.length > 0) {
+      logger.info(`Processing ${processedEntries.length} synced changes for "${shape.name}"`);
+      
+      try {
+        // Apply changes to local database, together with the cursor that covers them
+        const applyResult = await this.applyChangesToDb(shape, processedEntries, batch.cursor);
+        
+        result.processed = applyResult.total;
+        result.inserts = applyResult.inserts;
+        result.updates = applyResult.updates;
+        result.deletes = applyResult.deletes;
+        
+        logger.info(`Sync of "${shape.name}" applied: ${result.inserts} inserted/replaced, ${result.updates} updated, ${result.deletes} deleted`);
+        
+        // Notify renderer that data changed if any changes were applied
+        if (result.inserts > 0 || result.updates > 0 || result.deletes > 0) {
+          this.notifyRendererDataChanged(shape);
+        }
+      } catch (error) {
+        logger.error('Error applying changes to database', error);
+        throw new SyncError(`Error applying changes to database: ${(error as Error).message}`);
+      }
+    } else {
+      logger.debug('Sync successful but no new data changes to process');
+      
+      // Control messages alone can still move the cursor
+      if (this.hasCursorMoved(shape.name, batch.cursor)) {
+        await this.applyChangesToDb(shape, [], batch.cursor);
+      }
+    }
+    
+    electricClient.commitCursor(shape.name, batch.cursor);
+    
+    // Update last sync time
+    this.lastSyncTime = Date.now();
+    
+    // Emit sync completed event
+    this.emit('sync-completed', result);
+    
+    return result;
+  }
+  
+  /**
+   * Reset a shape's sync offset to -1, rebuilding its local table from a fresh snapshot
+   * @param name Shape name
+   * @param reason The error that triggered the reset
+   * @throws SyncError if there is no such shape or the rebuild failed
+   */
+  public async resetSyncOffset(name: string, reason: ShapeRefetchError): Promise<SyncResult> {
+    const shape = shapeRegistry.get(name);
+    if (!shape) {
+      throw new SyncError(`Shape "${name}" is not registered`);
+    }
+    return this.refetchShape(shape, reason);
+  }
+  
+  /**
+   * Recover from a rotated shape or a stale cursor
+   * Downloads a fresh snapshot from offset -1 and swaps it in for the shape's local table,
+   * together with the new cursor, in one transaction. Until that commits the old cursor
+   * stays in place, so an interrupted rebuild starts over on the next request.
+   * Rows with unpushed pending operations are left alone.
+   * @param shape The shape to refetch
+   * @param reason The error that triggered the refetch
+   */
+  private async refetchShape(shape: ShapeDefinition, reason: ShapeRefetchError): Promise<SyncResult> {
+    logger.warn(`Electric requested a refetch of shape "${shape.name}" (${reason.message}), rebuilding ${shape.localTable} from a fresh snapshot`);
+    
+    // Read the whole snapshot before touching the local table
+    const snapshot: ProcessedShapeEntry[] = [];
+    const rejected: RejectedShapeEntry[] = [];
+    let cursor: ShapeCursor = electricClient.createCursor();
+    let schema: ShapeSchema | undefined;
+    let primaryKey: string[] = [];
+    do {
+      if (!electricClient.isConnected()) {
+        throw new NetworkError(`Electric went offline while refetching shape "${shape.name}"`);
+      }
+      
+      const batch = await electricClient.fetchShapeLog(shape, { from: cursor });
+      schema = this.getShapeSchema(shape, batch) ?? schema;
+      primaryKey = getPrimaryKeyColumns(schema, shape.primaryKey);
+      const processed = shapeProcessor.processShapeLogEntries(batch.entries, schema, primaryKey);
+      snapshot.push(...processed.entries);
+      rejected.push(...processed.rejected);
+      cursor = batch.cursor;
+    } while (!cursor.upToDate);
+    
+    // Rows the snapshot can't be read for are dropped with the rest of the table, not kept stale
+    if (rejected.length > 0) {
+      this.reportRejectedEntries(shape, rejected);
+    }
+    
+    const pendingIds = shape.getPendingIds?.() ?? new Set<string>();
+    const entries = snapshot.filter(entry => !pendingIds.has(entry.id));
+    const keyColumns = primaryKey.join(', ');
+    const keyCondition = primaryKey.map(column => `${column} IS ?`).join(' AND ');
+    
+    let removed = 0;
+    let applyResult: ShapeApplyResult;
     
     try {
-      // Use transaction for atomicity
-      sqliteService.transaction(db => {
-        // Prepare statements outside the loop for efficiency
-        const insertStmt = db.prepare(
-          `INSERT OR REPLACE INTO todos (id, title, completed, created_at) VALUES (?, ?, ?, ?)`
-        );
-        const deleteStmt = db.prepare(`DELETE FROM todos WHERE id = ?`);
+      applyResult = sqliteService.transaction(db => {
+        const deleteStmt = db.prepare(`DELETE FROM ${shape.localTable} WHERE ${keyCondition}`);
+        const localKeys = db.prepare(`SELECT ${keyColumns} FROM ${shape.localTable}`).all() as RowKey[];
         
-        for (const entry of entries) {
-          try {
-            switch (entry.operation) {
-              case 'insert':
-                if (entry.value) {
-                  insertStmt.run(
-                    entry.id,
-                    entry.value.title || '',
-                    entry.value.completed === 'true' || entry.value.completed === true ? 1 : 0,
-                    entry.value.created_at || new Date().toISOString()
-                  );
-                  inserted++;
-                } else {
-                  logger.warn(`Skipping insert for ${entry.id} due to missing value`);
-                }
-                break;
-                
-              case 'update':
-                if (entry.value) {
-                  // Build SET clause dynamically based on available fields
-                  const updates: string[] = [];
-                  const params: any[] = [];
-                  
-                  if (entry.value.hasOwnProperty('title')) {
-                    updates.push('title = ?');
-                    params.push(entry.value.title);
-                  }
-                  
-                  if (entry.value.hasOwnProperty('completed')) {
-                    updates.push('completed = ?');
-                    params.push(entry.value.completed === 'true' || entry.value.completed === true ? 1 : 0);
-                  }
-                  
-                  if (entry.value.hasOwnProperty('created_at')) {
-                    updates.push('created_at = ?');
-                    params.push(entry.value.created_at);
-                  }
-                  
-                  if (updates.length > 0) {
-                    params.push(entry.id); // Add id for WHERE clause
-                    const sql = `UPDATE todos SET ${updates.join(', ')} WHERE id = ?`;
-                    const updateStmt = db.prepare(sql);
-                    const info = updateStmt.run(...params);
-                    if (info.changes > 0) updated++;
-                    else logger.warn(`Update for ${entry.id} affected 0 rows`);
-                  } else {
-                    logger.warn(`Skipping update for ${entry.id}, no fields in value`);
-                  }
-                } else {
-                  logger.warn(`Skipping update for ${entry.id} due to missing value`);
-                }
-                break;
-                
-              case 'delete':
-                const info = deleteStmt.run(entry.id);
-                if (info.changes > 0) deleted++;
-                else logger.warn(`Delete for ${entry.id} affected 0 rows (may have been deleted already)`);
-                break;
-            }
-          } catch (dbError) {
-            logger.error(`Error applying ${entry.operation} for todo ${entry.id}`, dbError);
+        for (const key of localKeys) {
+          if (!pendingIds.has(serializeRowKey(key, primaryKey))) {
+            removed += deleteStmt.run(...primaryKey.map(column => key[column])).changes;
           }
         }
+        
+        const result = shape.apply(db, entries);
+        shapeCursorStore.save(db, shape.name, cursor);
+        return result;
+      });
+      this.reportConflicts(shape, applyResult);
+      this.pushQueuedChanges(applyResult);
+    } catch (error) {
+      logger.error(`Error rebuilding ${shape.localTable} from snapshot`, error);
+      throw new SyncError(`Error rebuilding ${shape.localTable} from snapshot: ${(error as Error).message}`);
+    }
+    
+    electricClient.commitCursor(shape.name, cursor);
+    this.droppedRows.set(shape.name, new Set(rejected.map(entry => entry.id ?? entry.key)));
+    
+    const rebuildResult: ShapeRebuildResult = {
+      shape: shape.name,
+      snapshot: snapshot.length,
+      removed,
+      keptPending: pendingIds.size
+    };
+    
+    logger.warn(`Shape "${shape.name}" rebuilt: ${rebuildResult.snapshot} snapshot rows, ${rebuildResult.removed} local rows replaced, ${rebuildResult.keptPending} rows with pending operations kept`);
+    this.emit('shape-rebuilt', rebuildResult);
+    this.notifyRendererDataChanged(shape);
+    
+    const result: SyncResult = {
+      received: snapshot.length,
+      processed: applyResult.total,
+      inserts: applyResult.inserts,
+      updates: applyResult.updates,
+      deletes: applyResult.deletes
+    };
+    
+    this.lastSyncTime = Date.now();
+    this.emit('sync-completed', result);
+    
+    return result;
+  }
+  
+  /**
+   * Apply changes to local database
+   * The shape's cursor is advanced in the same transaction, so a batch is either applied
+   * together with its cursor or not at all
+   * @param shape The shape the entries belong to
+   * @param entries Processed shape entries
+   * @param cursor The cursor after the entries
+   */
+  private async applyChangesToDb(
+    shape: ShapeDefinition,
+    entries: ProcessedShapeEntry[],
+    cursor: ShapeCursor
+  ): Promise<ShapeApplyResult> {
+    let result: ShapeApplyResult;
+    try {
+      // Use transaction for atomicity
+      result = sqliteService.transaction(db => {
+        const applied = entries.length > 0
+          ? shape.apply(db, entries)
+          : { total: 0, inserts: 0, updates: 0, deletes: 0 };
+        shapeCursorStore.save(db, shape.name, cursor);
+        return applied;
       });
-      
-      return {
-        total: inserted + updated + deleted,
-        inserts: inserted,
-        updates: updated,
-        deletes: deleted
-      };
     } catch (error) {
       logger.error('Error applying changes to database', error);
       throw new DatabaseError(`Failed to apply changes to database: ${(error as Error).message}`);
     }
+    
+    this.reportConflicts(shape, result);
+    this.pushQueuedChanges(result);
+    return result;
+  }
+  
+  /**
+   * Push the local changes a shape queued while applying remote ones
+   * @param result Result of applying the changes
+   */
+  private pushQueuedChanges(result: ShapeApplyResult): void {
+    if (result.queued) {
+      logger.info(`${result.queued} local changes queued while applying remote changes`);
+      this.requestOutboxPush();
+    }
+  }
+  
+  /**
+   * Report shape entries the decoder rejected, to listeners and to the renderer
+   * @param shape The shape the entries belong to
+   * @param rejected The rejected entries
+   */
+  private reportRejectedEntries(shape: ShapeDefinition, rejected: RejectedShapeEntry[]): void {
+    const keys = rejected.map(entry => entry.key).join(', ');
+    handleError(new ShapeDecodeError(`Shape "${shape.name}" sent ${rejected.length} entries that could not be decoded (${keys})`), true);
+    this.emit('shape-rejected', shape.name, rejected);
+  }
+  
+  /**
+   * Report the remote changes a shape couldn't merge with local edits
+   * The local values were kept; listeners decide what to do about them
+   * @param shape The shape the changes belong to
+   * @param result Result of applying the changes
+   */
+  private reportConflicts(shape: ShapeDefinition, result: ShapeApplyResult): void {
+    const conflicts = result.conflicts ?? [];
+    for (const conflict of conflicts) {
+      logger.warn(`Sync conflict in shape "${shape.name}": ${conflict.message}`);
+      this.emit('sync-conflict', conflict);
+    }
+    
+    if (conflicts.length > 0) {
+      this.notifyRendererConflictsChanged();
+      this.notifyRendererDataChanged(shape);
+    }
+  }
+  
+  /**
+   * Get the conflicts waiting for the user
+   * @returns Array of conflicts
+   */
+  public getConflicts(): SyncConflict[] {
+    return conflictStore.getConflicts();
+  }
+  
+  /**
+   * Resolve a conflict
+   * The chosen values are written by the shape of the conflicted row as a local change and
+   * pushed in the background; the row's queued changes are held until then
+   * @param id The conflict id
+   * @param resolution Keep the local values, take the remote ones, or use merged values
+   * @param values The merged values, for a 'merged' resolution
+   * @returns True if the conflict was resolved
+   */
+  public resolveConflict(id: number, resolution: ConflictResolution, values?: Record<string, unknown>): boolean {
+    const conflict = conflictStore.getConflict(id);
+    if (!conflict) {
+      logger.warn(`No conflict ${id} to resolve`);
+      return false;
+    }
+    
+    const shape = shapeRegistry.getByLocalTable(conflict.table);
+    if (!shape?.resolveConflict) {
+      logger.error(`No shape can resolve conflicts of ${conflict.table}`);
+      return false;
+    }
+    
+    let chosen: Record<string, unknown> | null;
+    switch (resolution) {
+      case 'local':
+        chosen = conflict.local;
+        break;
+      case 'remote':
+        chosen = conflict.remote;
+        break;
+      case 'merged':
+        if (!values) {
+          logger.warn(`Merged resolution of conflict ${id} has no values`);
+          return false;
+        }
+        chosen = { ...conflict.local, ...values };
+        break;
+      default:
+        logger.warn(`Unknown resolution ${resolution} for conflict ${id}`);
+        return false;
+    }
+    
+    const resolved = sqliteService.transaction(db => {
+      if (!shape.resolveConflict!(conflict, chosen)) {
+        return false;
+      }
+      return conflictStore.removeConflict(id, db);
+    });
+    
+    if (resolved) {
+      logger.info(`Conflict ${id} of ${conflict.table} ${conflict.rowId} resolved (${resolution})`);
+      this.notifyRendererConflictsChanged();
+      this.notifyRendererDataChanged(shape);
+      this.requestOutboxPush();
+    }
+    return resolved;
+  }
+  
+  /**
+   * Get the column types to decode a batch with
+   * The electric-schema header takes precedence over the shape's declared types
+   * @param shape The shape the batch belongs to
+   * @param batch The fetched batch
+   * @returns The schema, or undefined if neither is available
+   */
+  private getShapeSchema(shape: ShapeDefinition, batch: ShapeLogBatch): ShapeSchema | undefined {
+    if (!shape.schema && !batch.schema) {
+      return undefined;
+    }
+    return { ...shape.schema, ...batch.schema };
+  }
+  
+  /**
+   * Check whether a cursor returned by Electric differs from the committed one
+   * @param name Shape name
+   * @param cursor The returned cursor
+   */
+  private hasCursorMoved(name: string, cursor: ShapeCursor): boolean {
+    const committed = electricClient.getCursor(name);
+    return committed.syncOffset !== cursor.syncOffset ||
+      committed.syncHandle !== cursor.syncHandle ||
+      committed.signature !== cursor.signature;
   }
   
   /**
@@ -545,7 +1211,9 @@ export class SyncCoordinator extends EventEmitter {
         total: 0,
         processed: 0,
         succeeded: 0,
-        failed: 0
+        failed: 0,
+        deadLettered: 0,
+        deferred: 0
       },
       sync: {
         received: 0,
@@ -605,17 +1273,41 @@ export class SyncCoordinator extends EventEmitter {
   }
   
   /**
-   * Notify renderer that data has changed
+   * Notify renderer that the dead letters changed
+   */
+  private notifyRendererDeadLettersChanged(): void {
+    const mainWindow = BrowserWindow.getAllWindows()[0];
+    if (mainWindow) {
+      mainWindow.webContents.send('dead-letters-updated');
+      logger.debug('Notified renderer of dead letter changes');
+    }
+  }
+  
+  /**
+   * Notify renderer that the conflict inbox changed
    */
-  private notifyRendererDataChanged(): void {
+  private notifyRendererConflictsChanged(): void {
     const mainWindow = BrowserWindow.getAllWindows()[0];
     if (mainWindow) {
-      mainWindow.webContents.send('todos-updated');
-      logger.debug('Notified renderer of data changes');
+      mainWindow.webContents.send('conflicts-updated');
+      logger.debug('Notified renderer of conflict changes');
+    }
+  }
+  
+  /**
+   * Notify renderer that data has changed
+   * @param shape The shape whose data changed, todos when omitted
+   */
+  private notifyRendererDataChanged(shape?: ShapeDefinition): void {
+    const rendererEvent = shape ? shape.rendererEvent : 'todos-updated';
+    const mainWindow = BrowserWindow.getAllWindows()[0];
+    if (mainWindow && rendererEvent) {
+      mainWindow.webContents.send(rendererEvent);
+      logger.debug(`Notified renderer of data changes (${rendererEvent})`);
     }
     
     // Also emit local event
-    this.emit('data-changed');
+    this.emit('data-changed', shape?.name);
   }
   
   /**
@@ -652,8 +1344,9 @@ export class SyncCoordinator extends EventEmitter {
   public dispose(): void {
     logger.info('Disposing sync coordinator');
     
-    // Stop periodic sync
+    // Stop periodic and live sync
     this.stopPeriodicSync();
+    this.stopLiveSync();
     
     // Stop connection monitor
     connectionMonitor.stop();
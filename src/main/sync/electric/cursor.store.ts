@@ -0,0 +1,178 @@
+/**
+ * Shape cursor store
+ * Persists Electric shape cursors in SQLite, so a cursor can be advanced in the same
+ * transaction as the rows it covers
+ */
+import { app } from 'electron';
+import * as path from 'path';
+import * as fs from 'fs';
+import Database from 'better-sqlite3';
+import configService from '../../config';
+import { getLogger } from '../../logging';
+import { sqliteService } from '../../database';
+import type { ShapeParams } from './electric.client';
+
+const logger = getLogger('ShapeCursorStore');
+
+/**
+ * Persisted part of a shape cursor
+ */
+export interface PersistedShapeCursor {
+  syncOffset: string;
+  syncHandle: string;
+  /** Table, columns and where clause the cursor was obtained for */
+  signature: string;
+}
+
+/**
+ * Row of the sync_cursors table
+ */
+interface CursorRow {
+  shape_name: string;
+  sync_offset: string;
+  sync_handle: string;
+  signature: string;
+}
+
+// Shape name that the pre-registry, single-shape state file belonged to
+const LEGACY_SHAPE_NAME = 'todos';
+
+/**
+ * Get the signature of a shape's table, columns and where clause
+ * @param shape The shape parameters
+ */
+export function getShapeSignature(shape: Omit<ShapeParams, 'name'>): string {
+  return JSON.stringify({
+    table: shape.table,
+    columns: shape.columns && shape.columns.length > 0 ? shape.columns : null,
+    where: shape.where || null
+  });
+}
+
+/**
+ * Shape cursor store class
+ */
+export class ShapeCursorStore {
+  private legacyStatePath: string;
+  private legacyStateChecked: boolean = false;
+  
+  constructor() {
+    this.legacyStatePath = configService.getOrDefault(
+      'ELECTRIC_STORAGE_PATH',
+      path.join(app.getPath('userData'), 'electric-sync.json')
+    );
+  }
+  
+  /**
+   * Load the persisted cursor of a shape
+   * @param name Shape name
+   * @returns The cursor, or undefined if the shape has never been synced
+   */
+  public load(name: string): PersistedShapeCursor | undefined {
+    this.migrateLegacyState();
+    
+    const row = sqliteService.queryOne<CursorRow>(
+      'SELECT * FROM sync_cursors WHERE shape_name = ?',
+      [name]
+    );
+    
+    if (!row) {
+      logger.info(`No stored cursor for "${name}", starting from -1`);
+      return undefined;
+    }
+    
+    logger.info(`Loaded cursor of "${name}": offset ${row.sync_offset}${row.sync_handle ? `, handle ${row.sync_handle}` : ''}`);
+    return {
+      syncOffset: row.sync_offset,
+      syncHandle: row.sync_handle,
+      signature: row.signature
+    };
+  }
+  
+  /**
+   * Save the cursor of a shape
+   * Meant to be called inside the transaction that applies the entries the cursor covers
+   * @param db Database instance of the surrounding transaction
+   * @param name Shape name
+   * @param cursor The cursor to persist
+   */
+  public save(db: Database.Database, name: string, cursor: PersistedShapeCursor): void {
+    db.prepare(
+      `INSERT INTO sync_cursors (shape_name, sync_offset, sync_handle, signature, updated_at)
+       VALUES (?, ?, ?, ?, ?)
+       ON CONFLICT(shape_name) DO UPDATE SET
+         sync_offset = excluded.sync_offset,
+         sync_handle = excluded.sync_handle,
+         signature = excluded.signature,
+         updated_at = excluded.updated_at`
+    ).run(name, cursor.syncOffset, cursor.syncHandle, cursor.signature, new Date().toISOString());
+  }
+  
+  /**
+   * Import cursors from the electric-sync.json file used by earlier versions
+   * Runs once; the file is renamed afterwards so it is never imported again
+   */
+  private migrateLegacyState(): void {
+    if (this.legacyStateChecked) {
+      return;
+    }
+    
+    if (!fs.existsSync(this.legacyStatePath)) {
+      this.legacyStateChecked = true;
+      return;
+    }
+    
+    logger.info(`Migrating sync state from ${this.legacyStatePath}`);
+    
+    let shapes: Record<string, { syncOffset?: string; syncHandle?: string; signature?: string }> = {};
+    try {
+      const data = JSON.parse(fs.readFileSync(this.legacyStatePath, 'utf8'));
+      
+      // State files written before the shape registry hold a single todos cursor
+      shapes = data.shapes ? data.shapes : { [LEGACY_SHAPE_NAME]: data };
+    } catch (error) {
+      logger.warn('Failed to read legacy sync state, shapes will resync from -1', error);
+    }
+    
+    sqliteService.transaction(db => {
+      const insertStmt = db.prepare(
+        `INSERT OR IGNORE INTO sync_cursors (shape_name, sync_offset, sync_handle, signature, updated_at)
+         VALUES (?, ?, ?, ?, ?)`
+      );
+      
+      for (const [name, state] of Object.entries(shapes)) {
+        if (!this.isValidStateValue(state.syncOffset)) {
+          continue;
+        }
+        
+        // Legacy state has no signature, it was always the unfiltered todos table
+        const signature = state.signature ?? (name === LEGACY_SHAPE_NAME
+          ? getShapeSignature({ table: 'todos' })
+          : '');
+        
+        insertStmt.run(
+          name,
+          state.syncOffset,
+          this.isValidStateValue(state.syncHandle) ? state.syncHandle : '',
+          signature,
+          new Date().toISOString()
+        );
+      }
+    });
+    
+    fs.renameSync(this.legacyStatePath, `${this.legacyStatePath}.migrated`);
+    this.legacyStateChecked = true;
+    logger.info('Legacy sync state migrated');
+  }
+  
+  /**
+   * Check a persisted value isn't missing or a stringified undefined/null
+   */
+  private isValidStateValue(value: string | undefined): value is string {
+    return Boolean(value) && value !== 'undefined' && value !== 'null';
+  }
+}
+
+// Export as singleton
+export const shapeCursorStore = new ShapeCursorStore();
+export default shapeCursorStore;
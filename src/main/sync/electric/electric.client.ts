@@ -2,22 +2,42 @@
  * ElectricSQL client for syncing with Supabase
  * Responsible for making HTTP requests to ElectricSQL and handling responses
  */
-import { app } from 'electron';
-import * as path from 'path';
-import * as fs from 'fs';
 import configService from '../../config';
 import { getLogger } from '../../logging';
-import { ElectricError, NetworkError } from '../../error/app.error';
+import { ElectricError, NetworkError, ShapeRefetchError } from '../../error/app.error';
+import { shapeCursorStore, getShapeSignature } from './cursor.store';
+import type { PersistedShapeCursor } from './cursor.store';
+import type { ShapeSchema } from './value.decoder';
 
 const logger = getLogger('ElectricClient');
 
 /**
- * Sync state interface for persistent storage
+ * Shape request parameters
  */
-interface SyncState {
-  syncOffset: string;
-  syncHandle: string;
-  lastSync: string;
+export interface ShapeParams {
+  /** Unique name, used as the key of the persisted cursor */
+  name: string;
+  table: string;
+  columns?: string[];
+  where?: string;
+}
+
+/**
+ * Position of the client in a shape log
+ */
+export interface ShapeCursor extends PersistedShapeCursor {
+  liveCursor: string;
+  upToDate: boolean;
+}
+
+/**
+ * Entries returned by a shape request, with the cursor to continue from
+ */
+export interface ShapeLogBatch {
+  entries: any[];
+  cursor: ShapeCursor;
+  /** Column types from the electric-schema header, if Electric has sent one for the shape */
+  schema?: ShapeSchema;
 }
 
 /**
@@ -26,19 +46,16 @@ interface SyncState {
 export class ElectricClient {
   private electricUrl: string;
   private isOnline: boolean = false;
-  private localStoragePath: string;
-  private syncOffset: string = '-1';
-  private syncHandle: string = '';
+  private cursors: Map<string, ShapeCursor> = new Map();
+  private schemas: Map<string, ShapeSchema> = new Map();
+  private liveTimeout: number;
+  private liveAbortControllers: Map<string, AbortController> = new Map();
   
   constructor() {
     this.electricUrl = configService.getElectricUrl();
-    this.localStoragePath = configService.getOrDefault(
-      'ELECTRIC_STORAGE_PATH', 
-      path.join(app.getPath('userData'), 'electric-sync.json')
-    );
+    this.liveTimeout = configService.getOrDefault('ELECTRIC_LIVE_TIMEOUT', 45000, 'number');
     
     logger.info(`Initializing ElectricSQL client with URL: ${this.electricUrl}`);
-    this.loadSyncState();
   }
   
   /**
@@ -84,18 +101,66 @@ export class ElectricClient {
   
   /**
    * Get the raw shape log entries from ElectricSQL
-   * @returns The shape log entries as received from ElectricSQL
+   * The client's own cursor is left untouched: once the entries are safely applied,
+   * the caller persists the returned cursor and hands it back through commitCursor
+   * @param shape The shape to request
+   * @param live Long-poll for new changes instead of returning immediately
+   *   (only honoured once the client is up-to-date with the shape log)
+   * @param from Cursor to request from, the shape's committed cursor when omitted
+   * @returns The shape log entries as received from ElectricSQL, and the cursor after them
    */
-  public async fetchShapeLog(): Promise<any[]> {
+  public async fetchShapeLog(
+    shape: ShapeParams,
+    { live = false, from }: { live?: boolean; from?: ShapeCursor } = {}
+  ): Promise<ShapeLogBatch> {
+    const cursor: ShapeCursor = { ...(from ?? this.getCursor(shape.name)) };
+    
     if (!this.isOnline) {
-      logger.info('Skipping fetchShapeLog, not online');
-      return [];
+      logger.info(`Skipping fetchShapeLog for "${shape.name}", not online`);
+      return { entries: [], cursor, schema: this.schemas.get(shape.name) };
+    }
+    
+    const signature = getShapeSignature(shape);
+    
+    // A cursor only applies to the exact shape it was obtained for
+    if (cursor.signature !== signature) {
+      if (cursor.syncOffset !== '-1') {
+        throw new ShapeRefetchError(`Definition of shape "${shape.name}" changed`);
+      }
+      cursor.signature = signature;
+    }
+    
+    if (live && !cursor.upToDate) {
+      live = false;
+    }
+    
+    const params = new URLSearchParams({ table: shape.table, offset: cursor.syncOffset });
+    if (shape.columns && shape.columns.length > 0) {
+      params.set('columns', shape.columns.join(','));
+    }
+    if (shape.where) {
+      params.set('where', shape.where);
     }
     
     // Add handle parameter if we have one
-    let url = `${this.electricUrl}/v1/shape?table=todos&offset=${this.syncOffset}`;
-    if (this.syncHandle) {
-      url += `&handle=${this.syncHandle}`;
+    if (cursor.syncHandle) {
+      params.set('handle', cursor.syncHandle);
+    }
+    
+    // Live requests are held open by Electric until new changes arrive (or its own timeout),
+    // the cursor lets Electric and any caching proxy tell consecutive long-polls apart
+    if (live) {
+      params.set('live', 'true');
+      if (cursor.liveCursor) {
+        params.set('cursor', cursor.liveCursor);
+      }
+    }
+    
+    const url = `${this.electricUrl}/v1/shape?${params.toString()}`;
+    
+    const abortController = new AbortController();
+    if (live) {
+      this.liveAbortControllers.set(shape.name, abortController);
     }
     
     const options = {
@@ -104,12 +169,16 @@ export class ElectricClient {
         'Accept': 'application/json',
         'Content-Type': 'application/json'
       },
-      signal: AbortSignal.timeout(10000) // Longer timeout for sync operations
+      // Longer timeout for sync operations, and longer still for long-polls
+      signal: AbortSignal.any([
+        abortController.signal,
+        AbortSignal.timeout(live ? this.liveTimeout : 10000)
+      ])
     };
     
-    logger.info(`Requesting shape data with offset: ${this.syncOffset}`);
-    if (this.syncHandle) {
-      logger.debug(`Using handle: ${this.syncHandle}`);
+    logger.info(`Requesting shape "${shape.name}" with offset: ${cursor.syncOffset}${live ? ' (live)' : ''}`);
+    if (cursor.syncHandle) {
+      logger.debug(`Using handle: ${cursor.syncHandle}`);
     }
     
     try {
@@ -134,6 +203,15 @@ export class ElectricClient {
         
         logger.error(`Shape request failed with status ${response.status}: ${errorText}`);
         
+        // The shape was rotated or our cursor expired, the caller has to start over
+        if (response.status === 409) {
+          throw new ShapeRefetchError(`409 Conflict: ${errorText}`);
+        }
+        
+        if (response.status === 400 && /offset|handle/i.test(errorText)) {
+          throw new ShapeRefetchError(`Invalid shape cursor: ${errorText}`);
+        }
+        
         // If we get a 400 error, throw specific error
         if (response.status === 400) {
           throw new ElectricError(`400 Bad Request: ${errorText}`);
@@ -147,7 +225,7 @@ export class ElectricClient {
       const newOffset = response.headers.get('electric-offset');
       if (newOffset) {
         logger.debug(`Updated sync offset: ${newOffset}`);
-        this.syncOffset = newOffset;
+        cursor.syncOffset = newOffset;
       } else {
         logger.warn('No electric-offset header in response');
       }
@@ -155,26 +233,68 @@ export class ElectricClient {
       const newHandle = response.headers.get('electric-handle');
       if (newHandle) {
         logger.debug(`Updated sync handle: ${newHandle}`);
-        this.syncHandle = newHandle;
+        cursor.syncHandle = newHandle;
       } else {
         logger.warn('No electric-handle header in response');
       }
       
-      // Save sync state after successful parsing
-      this.saveSyncState();
+      const newCursor = response.headers.get('electric-cursor');
+      if (newCursor) {
+        cursor.liveCursor = newCursor;
+      }
+      
+      if (response.headers.has('electric-up-to-date')) {
+        this.markUpToDate(shape.name, cursor);
+      }
+      
+      // Only non-live responses carry the schema, keep it for the live ones
+      const schemaHeader = response.headers.get('electric-schema');
+      if (schemaHeader) {
+        try {
+          this.schemas.set(shape.name, JSON.parse(schemaHeader) as ShapeSchema);
+        } catch (schemaError) {
+          logger.warn(`Ignoring malformed electric-schema header for "${shape.name}"`, schemaError);
+        }
+      }
+      const schema = this.schemas.get(shape.name);
+      
+      // A long-poll that timed out without changes has no body
+      if (response.status === 204) {
+        logger.debug(`Live request for "${shape.name}" returned without new changes`);
+        return { entries: [], cursor, schema };
+      }
       
       // Process the shape log entries (only if response is OK)
       let entries = [];
       try {
         entries = await response.json();
-        logger.info(`Received ${entries?.length ?? 0} shape log entries`);
+        logger.info(`Received ${entries?.length ?? 0} shape log entries for "${shape.name}"`);
       } catch (jsonError) {
+        // Don't move past entries we couldn't read
         logger.error('Failed to parse JSON response', jsonError);
-        return []; // Return empty array on parse error
+        throw new ElectricError(`Failed to parse shape log response: ${(jsonError as Error).message}`);
+      }
+      
+      if (Array.isArray(entries) && entries.some(entry => entry?.headers?.control === 'must-refetch')) {
+        throw new ShapeRefetchError('Received must-refetch control message');
       }
       
-      return entries;
+      if (Array.isArray(entries) && entries.some(entry => entry?.headers?.control === 'up-to-date')) {
+        this.markUpToDate(shape.name, cursor);
+      }
+      
+      return { entries, cursor, schema };
     } catch (error: any) {
+      // A live request cancelled on purpose (manual sync, resume from sleep, shutdown)
+      if (abortController.signal.aborted) {
+        logger.debug(`Live request for "${shape.name}" aborted`);
+        return { entries: [], cursor: { ...(from ?? this.getCursor(shape.name)) } };
+      }
+      
+      if (error instanceof ShapeRefetchError || error instanceof ElectricError) {
+        throw error;
+      }
+      
       // Catch network errors or JSON parsing errors
       logger.error('Failed to fetch shape log', error);
       
@@ -197,86 +317,83 @@ export class ElectricClient {
       } else {
         throw new ElectricError(`Error fetching shape log: ${error.message}`);
       }
+    } finally {
+      if (this.liveAbortControllers.get(shape.name) === abortController) {
+        this.liveAbortControllers.delete(shape.name);
+      }
     }
   }
   
   /**
-   * Reset the sync offset to -1 (for initial sync or to recover from errors)
+   * Abort in-flight live requests
+   * The pending fetchShapeLog calls resolve with no entries
+   * @param name Shape name, all shapes when omitted
    */
-  public resetSyncOffset(): void {
-    logger.info('Resetting sync offset to -1');
-    this.syncOffset = '-1';
-    this.syncHandle = '';
-    this.saveSyncState();
+  public abortLiveRequest(name?: string): void {
+    for (const [shapeName, controller] of this.liveAbortControllers) {
+      if (name === undefined || name === shapeName) {
+        logger.debug(`Aborting live request for "${shapeName}"`);
+        controller.abort();
+        this.liveAbortControllers.delete(shapeName);
+      }
+    }
   }
   
   /**
-   * Save sync state to local storage
+   * Whether the client has caught up with a shape's log and can long-poll
+   * @param name Shape name
    */
-  private saveSyncState(): void {
-    const state: SyncState = {
-      syncOffset: this.syncOffset,
-      syncHandle: this.syncHandle,
-      lastSync: new Date().toISOString()
-    };
-    
-    try {
-      // Create directory if it doesn't exist
-      const dirPath = path.dirname(this.localStoragePath);
-      if (!fs.existsSync(dirPath)) {
-        fs.mkdirSync(dirPath, { recursive: true });
-      }
-      
-      fs.writeFileSync(this.localStoragePath, JSON.stringify(state, null, 2));
-      logger.debug('Saved sync state to storage');
-    } catch (error) {
-      logger.error('Failed to save sync state', error);
+  public isUpToDate(name: string): boolean {
+    return this.getCursor(name).upToDate;
+  }
+  
+  /**
+   * Record that a shape's log has been fully read
+   */
+  private markUpToDate(name: string, cursor: ShapeCursor): void {
+    if (!cursor.upToDate) {
+      logger.info(`Shape "${name}" is up-to-date, live requests enabled`);
     }
+    cursor.upToDate = true;
   }
   
   /**
-   * Load sync state from local storage
+   * Get the committed cursor of a shape
+   * Loaded from the cursor store on first use, a fresh cursor if the shape was never synced
+   * @param name Shape name
    */
-  private loadSyncState(): void {
-    try {
-      if (fs.existsSync(this.localStoragePath)) {
-        const data = fs.readFileSync(this.localStoragePath, 'utf8');
-        const state = JSON.parse(data) as SyncState;
-        
-        // Check if the stored state has valid values
-        if (state.syncOffset && state.syncOffset !== 'undefined' && state.syncOffset !== 'null') {
-          logger.info(`Loaded sync offset: ${state.syncOffset}`);
-          this.syncOffset = state.syncOffset;
-        } else {
-          logger.info('No valid offset found, using default -1');
-          this.syncOffset = '-1';
-        }
-        
-        if (state.syncHandle && state.syncHandle !== 'undefined' && state.syncHandle !== 'null') {
-          logger.info(`Loaded sync handle: ${state.syncHandle}`);
-          this.syncHandle = state.syncHandle;
-        } else {
-          logger.info('No valid handle found, using empty string');
-          this.syncHandle = '';
-        }
-        
-        // Log last sync time if available
-        if (state.lastSync) {
-          const lastSyncTime = new Date(state.lastSync);
-          const now = new Date();
-          const diffMinutes = Math.floor((now.getTime() - lastSyncTime.getTime()) / (1000 * 60));
-          logger.info(`Last sync was ${diffMinutes} minutes ago`);
-        }
-      } else {
-        logger.info('No sync state file found, using defaults');
-        this.syncOffset = '-1';
-        this.syncHandle = '';
-      }
-    } catch (error) {
-      logger.warn('Failed to load sync state', error);
-      this.syncOffset = '-1';
-      this.syncHandle = '';
+  public getCursor(name: string): ShapeCursor {
+    let cursor = this.cursors.get(name);
+    if (!cursor) {
+      const stored = shapeCursorStore.load(name);
+      cursor = stored
+        ? { ...stored, liveCursor: '', upToDate: false }
+        : this.createCursor();
+      this.cursors.set(name, cursor);
     }
+    return cursor;
+  }
+  
+  /**
+   * Create a cursor that starts from the beginning of the shape log
+   */
+  public createCursor(): ShapeCursor {
+    return {
+      syncOffset: '-1',
+      syncHandle: '',
+      signature: '',
+      liveCursor: '',
+      upToDate: false
+    };
+  }
+  
+  /**
+   * Adopt a cursor returned by fetchShapeLog once its entries have been applied
+   * @param name Shape name
+   * @param cursor The cursor to continue from
+   */
+  public commitCursor(name: string, cursor: ShapeCursor): void {
+    this.cursors.set(name, cursor);
   }
   
   /**
@@ -303,5 +420,6 @@ export class ElectricClient {
    */
   public dispose(): void {
     logger.info('Disposing ElectricSQL client');
+    this.abortLiveRequest();
   }
 }
\ No newline at end of file
@@ -1,18 +1,50 @@
 /**
  * Electric module index file
- * Exports the Electric client and Shape processor
+ * Exports the Electric client, Shape processor and cursor store
  */
 import { ElectricClient } from './electric.client';
 import { ShapeProcessor } from './shape.processor';
-import type { ProcessedShapeEntry } from './shape.processor';
+import { ShapeCursorStore, shapeCursorStore, getShapeSignature } from './cursor.store';
+import { decodeValue, decodeRow } from './value.decoder';
+import { parseRowKey, toRowKey, serializeRowKey, getPrimaryKeyColumns } from './row.key';
+import type { ProcessedShapeEntry, ProcessedShapeBatch, RejectedShapeEntry } from './shape.processor';
+import type { ShapeParams, ShapeCursor, ShapeLogBatch } from './electric.client';
+import type { PersistedShapeCursor } from './cursor.store';
+import type { ColumnSchema, ShapeSchema } from './value.decoder';
+import type { ParsedRowKey, RowKey } from './row.key';
 
-export { ElectricClient, ShapeProcessor };
-export type { ProcessedShapeEntry };
+export {
+  ElectricClient,
+  ShapeProcessor,
+  ShapeCursorStore,
+  shapeCursorStore,
+  getShapeSignature,
+  decodeValue,
+  decodeRow,
+  parseRowKey,
+  toRowKey,
+  serializeRowKey,
+  getPrimaryKeyColumns
+};
+export type {
+  ProcessedShapeEntry,
+  ProcessedShapeBatch,
+  RejectedShapeEntry,
+  ShapeParams,
+  ShapeCursor,
+  ShapeLogBatch,
+  PersistedShapeCursor,
+  ColumnSchema,
+  ShapeSchema,
+  ParsedRowKey,
+  RowKey
+};
 
 export const electricClient = new ElectricClient();
 export const shapeProcessor = new ShapeProcessor();
 
 export default {
   electricClient,
-  shapeProcessor
+  shapeProcessor,
+  shapeCursorStore
 };
@@ -0,0 +1,174 @@
+/**
+ * Row key parsing for ElectricSQL
+ * Turns Electric row keys (e.g. "public"."todos"/"uuid-goes-here") into structured primary keys
+ */
+import { ShapeDecodeError } from '../../error/app.error';
+import { decodeValue } from './value.decoder';
+import type { ShapeSchema } from './value.decoder';
+
+/**
+ * Electric row key split into its parts
+ */
+export interface ParsedRowKey {
+  /** Postgres schema of the row's table */
+  schema: string;
+  /** Table the row belongs to */
+  table: string;
+  /** Raw primary key values in key order, null for NULL key columns */
+  values: (string | null)[];
+}
+
+/**
+ * Structured primary key, keyed by column name
+ */
+export type RowKey = Record<string, unknown>;
+
+/**
+ * Read a quoted identifier, where "" stands for a literal quote
+ * @returns The identifier and the position after its closing quote
+ */
+function readIdentifier(key: string, start: number): [string, number] {
+  if (key[start] !== '"') {
+    throw new ShapeDecodeError(`Malformed row key ${JSON.stringify(key)}: expected a quoted identifier at ${start}`);
+  }
+  
+  let identifier = '';
+  let i = start + 1;
+  while (i < key.length) {
+    if (key[i] === '"') {
+      if (key[i + 1] === '"') {
+        identifier += '"';
+        i += 2;
+        continue;
+      }
+      return [identifier, i + 1];
+    }
+    identifier += key[i++];
+  }
+  
+  throw new ShapeDecodeError(`Malformed row key ${JSON.stringify(key)}: unterminated identifier`);
+}
+
+/**
+ * Read a quoted key value
+ * Slashes inside values are doubled and quotes are not escaped, so a quote only closes the
+ * value when followed by the end of the key or by a single slash
+ * @returns The value and the position after its closing quote
+ */
+function readValue(key: string, start: number): [string, number] {
+  let value = '';
+  let i = start + 1;
+  while (i < key.length) {
+    const char = key[i];
+    if (char === '/' && key[i + 1] === '/') {
+      value += '/';
+      i += 2;
+      continue;
+    }
+    if (char === '"' && (i + 1 === key.length || (key[i + 1] === '/' && key[i + 2] !== '/'))) {
+      return [value, i + 1];
+    }
+    value += char;
+    i++;
+  }
+  
+  throw new ShapeDecodeError(`Malformed row key ${JSON.stringify(key)}: unterminated value`);
+}
+
+/**
+ * Parse an Electric row key
+ * @param key The key of a shape log entry, "schema"."table" followed by /"value" or /_ (NULL) per key column
+ * @returns The parsed key
+ * @throws ShapeDecodeError if the key is malformed
+ */
+export function parseRowKey(key: string): ParsedRowKey {
+  const [schema, afterSchema] = readIdentifier(key, 0);
+  if (key[afterSchema] !== '.') {
+    throw new ShapeDecodeError(`Malformed row key ${JSON.stringify(key)}: expected "schema"."table"`);
+  }
+  const [table, afterTable] = readIdentifier(key, afterSchema + 1);
+  
+  const values: (string | null)[] = [];
+  let i = afterTable;
+  while (i < key.length) {
+    if (key[i] !== '/') {
+      throw new ShapeDecodeError(`Malformed row key ${JSON.stringify(key)}: expected / at ${i}`);
+    }
+    i++;
+    
+    if (key[i] === '_' && (i + 1 === key.length || key[i + 1] === '/')) {
+      values.push(null);
+      i++;
+    } else if (key[i] === '"') {
+      const [value, next] = readValue(key, i);
+      values.push(value);
+      i = next;
+    } else {
+      throw new ShapeDecodeError(`Malformed row key ${JSON.stringify(key)}: expected a quoted value at ${i}`);
+    }
+  }
+  
+  if (values.length === 0) {
+    throw new ShapeDecodeError(`Malformed row key ${JSON.stringify(key)}: no primary key values`);
+  }
+  
+  return { schema, table, values };
+}
+
+/**
+ * Resolve the primary key columns of a shape, in key order
+ * @param schema Column schema, whose pk_index marks the key columns
+ * @param declared Primary key declared by the shape, takes precedence over the schema
+ * @returns The key columns, ["id"] when nothing else is known
+ */
+export function getPrimaryKeyColumns(schema?: ShapeSchema, declared?: string | string[]): string[] {
+  if (declared) {
+    return Array.isArray(declared) ? declared : [declared];
+  }
+  
+  const keyColumns = Object.entries(schema ?? {})
+    .filter(([, column]) => column.pk_index !== undefined)
+    .sort(([, a], [, b]) => a.pk_index! - b.pk_index!)
+    .map(([name]) => name);
+  
+  return keyColumns.length > 0 ? keyColumns : ['id'];
+}
+
+/**
+ * Build the structured primary key of a parsed row key
+ * @param parsed The parsed key
+ * @param columns Primary key columns, in key order
+ * @param schema Column types used to decode the key values
+ * @returns The primary key, keyed by column name
+ * @throws ShapeDecodeError if the number of values doesn't match the key columns or a value doesn't decode
+ */
+export function toRowKey(parsed: ParsedRowKey, columns: string[], schema?: ShapeSchema): RowKey {
+  if (parsed.values.length !== columns.length) {
+    throw new ShapeDecodeError(
+      `Row key of "${parsed.schema}"."${parsed.table}" has ${parsed.values.length} values, expected ${columns.length} (${columns.join(', ')})`
+    );
+  }
+  
+  const rowKey: RowKey = {};
+  columns.forEach((column, index) => {
+    const value = parsed.values[index];
+    const columnSchema = schema?.[column];
+    rowKey[column] = columnSchema ? decodeValue(column, value, columnSchema) : value;
+  });
+  return rowKey;
+}
+
+/**
+ * Serialize a primary key into a stable string id
+ * Single-column keys serialize to the value itself, so plain text ids stay readable
+ * @param rowKey The primary key
+ * @param columns Primary key columns, in key order
+ * @returns The id
+ */
+export function serializeRowKey(rowKey: RowKey, columns: string[]): string {
+  const values = columns.map(column => rowKey[column] ?? null);
+  if (values.length === 1 && values[0] !== null) {
+    return String(values[0]);
+  }
+  return JSON.stringify(values.map(value => (typeof value === 'bigint' ? value.toString() : value)));
+}
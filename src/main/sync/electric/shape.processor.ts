@@ -3,7 +3,11 @@
  * Responsible for parsing shape log entries into structured data
  */
 import { getLogger } from '../../logging';
-import { ElectricError } from '../../error/app.error';
+import { ElectricError, ShapeDecodeError } from '../../error/app.error';
+import { decodeRow } from './value.decoder';
+import { parseRowKey, toRowKey, serializeRowKey } from './row.key';
+import type { ShapeSchema } from './value.decoder';
+import type { RowKey } from './row.key';
 
 const logger = getLogger('ShapeProcessor');
 
@@ -12,8 +16,27 @@ const logger = getLogger('ShapeProcessor');
  */
 export interface ProcessedShapeEntry {
   operation: 'insert' | 'update' | 'delete';
-  id: string; // Extracted ID
-  value: Record<string, any> | null; // Full data for insert/update
+  id: string; // Serialized primary key, the value itself for single-column keys
+  key: RowKey; // Primary key values by column
+  value: Record<string, any> | null; // Typed data for insert/update (changed columns only for updates)
+}
+
+/**
+ * Shape entry left out because its key or a value couldn't be decoded
+ */
+export interface RejectedShapeEntry {
+  operation: 'insert' | 'update' | 'delete';
+  key: string; // Raw key of the entry, as sent by Electric
+  id?: string; // Serialized primary key, if the key itself could be decoded
+  reason: string;
+}
+
+/**
+ * Processed shape entries, and the entries rejected by the decoder
+ */
+export interface ProcessedShapeBatch {
+  entries: ProcessedShapeEntry[];
+  rejected: RejectedShapeEntry[];
 }
 
 /**
@@ -23,18 +46,26 @@ export class ShapeProcessor {
   /**
    * Process shape log entries into a standardized format
    * @param entries The raw shape log entries from ElectricSQL
-   * @returns Processed entries in a standard format
+   * @param schema Column types used to decode values; values pass through untouched without one
+   * @param primaryKey Primary key columns, in key order
+   * @returns Processed entries in a standard format, and the rejected ones for the caller to
+   *   recover from
    */
-  public processShapeLogEntries(entries: any[]): ProcessedShapeEntry[] {
+  public processShapeLogEntries(entries: any[], schema?: ShapeSchema, primaryKey: string[] = ['id']): ProcessedShapeBatch {
     const results: ProcessedShapeEntry[] = [];
+    const rejected: RejectedShapeEntry[] = [];
     let controlSkippedCount = 0;
     let processedDataCount = 0;
     let invalidSkippedCount = 0;
     
+    if (!schema && entries.length > 0) {
+      logger.warn('No schema available, shape values are passed through undecoded');
+    }
+    
     // Add defensive check for non-array input
     if (!Array.isArray(entries)) {
       logger.warn('Received non-array input:', entries);
-      return [];
+      return { entries: [], rejected: [] };
     }
     
     logger.verbose('Raw shape entries received:', 
@@ -53,20 +84,28 @@ export class ShapeProcessor {
         if (entry.headers?.operation && entry.key) {
           const operation = entry.headers.operation as 'insert' | 'update' | 'delete';
           
-          // Extract ID from key (e.g., "public"."todos"/"uuid-goes-here")
-          const keyParts = entry.key.split('/');
-          const idWithQuotes = keyParts[keyParts.length - 1];
-          const id = idWithQuotes?.replace(/"/g, ''); // Remove quotes
+          let value = entry.value || null; // Use value if present
+          let key: RowKey;
+          let id: string | undefined;
           
-          if (!id) {
-            logger.warn('Skipping entry with invalid key:', entry.key);
-            invalidSkippedCount++;
+          // Keys that don't parse and values that don't match their column type are handed back
+          // as rejected and the row left out, never coerced into something that merely looks right
+          try {
+            key = toRowKey(parseRowKey(entry.key), primaryKey, schema);
+            id = serializeRowKey(key, primaryKey);
+            if (value && schema) {
+              value = decodeRow(value, schema);
+            }
+          } catch (decodeError) {
+            if (!(decodeError instanceof ShapeDecodeError)) {
+              throw decodeError;
+            }
+            rejected.push({ operation, key: String(entry.key), id, reason: decodeError.message });
+            logger.error(`Rejecting ${operation} for ${entry.key}: ${decodeError.message}`);
             continue;
           }
           
-          const value = entry.value || null; // Use value if present
-          
-          results.push({ operation, id, value });
+          results.push({ operation, id, key, value });
           processedDataCount++; // Increment counter
         } else {
           invalidSkippedCount++;
@@ -74,13 +113,13 @@ export class ShapeProcessor {
         }
       }
       
-      logger.info(`Processing summary: ${processedDataCount} data entries processed, ${controlSkippedCount} control messages skipped, ${invalidSkippedCount} invalid entries skipped`);
+      logger.info(`Processing summary: ${processedDataCount} data entries processed, ${controlSkippedCount} control messages skipped, ${invalidSkippedCount} invalid entries skipped, ${rejected.length} entries rejected by the decoder`);
     } catch (error) {
       logger.error('Error processing entries:', error);
       throw new ElectricError(`Failed to process shape entries: ${(error as Error).message}`);
     }
     
-    return results;
+    return { entries: results, rejected };
   }
 }
 
@@ -0,0 +1,166 @@
+/**
+ * Value decoder for ElectricSQL
+ * Turns Postgres wire values (text format, as sent in shape logs) into typed local values
+ */
+import { ShapeDecodeError } from '../../error/app.error';
+
+/**
+ * Column schema, as sent in the electric-schema header
+ */
+export interface ColumnSchema {
+  /** Postgres type name, e.g. "int4", "timestamptz" */
+  type: string;
+  /** Array dimensions, absent or 0 for scalars */
+  dims?: number;
+  /** Position in the primary key, absent for non-key columns */
+  pk_index?: number;
+  not_null?: boolean;
+}
+
+/**
+ * Schema of a shape, keyed by column name
+ */
+export type ShapeSchema = Record<string, ColumnSchema>;
+
+// Postgres timestamp text format, e.g. "2025-04-06 12:34:56.123456+02" or "2025-04-06T12:34:56Z"
+const TIMESTAMP_PATTERN = /^(\d{4}-\d{2}-\d{2})[ T](\d{2}:\d{2}:\d{2})(\.\d+)?(Z|[+-]\d{2}(?::?\d{2})?)?$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const NUMERIC_PATTERN = /^[+-]?(\d+(\.\d*)?|\.\d+)([eE][+-]?\d+)?$/;
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const TEXT_TYPES = new Set(['text', 'varchar', 'bpchar', 'char', 'name', 'citext']);
+const INTEGER_TYPES = new Set(['int2', 'int4', 'oid']);
+const FLOAT_TYPES = new Set(['float4', 'float8']);
+
+/**
+ * Decode a single wire value
+ * @param column Column name, for error reporting
+ * @param value The raw value from the shape log
+ * @param schema The column's schema
+ * @returns The typed value
+ * @throws ShapeDecodeError if the value doesn't match its type or the type is unsupported
+ */
+export function decodeValue(column: string, value: unknown, schema: ColumnSchema): unknown {
+  if (value === null || value === undefined) {
+    if (schema.not_null) {
+      throw new ShapeDecodeError(`Column "${column}" is NOT NULL but received null`);
+    }
+    return null;
+  }
+  
+  if (typeof value !== 'string') {
+    throw new ShapeDecodeError(`Column "${column}" expected a text-format value, received ${typeof value}`);
+  }
+  
+  if (schema.dims && schema.dims > 0) {
+    throw new ShapeDecodeError(`Column "${column}" has unsupported array type ${schema.type}[]`);
+  }
+  
+  const type = schema.type.toLowerCase();
+  const fail = (): never => {
+    throw new ShapeDecodeError(`Column "${column}" has malformed ${type} value: ${JSON.stringify(value.substring(0, 100))}`);
+  };
+  
+  if (TEXT_TYPES.has(type)) {
+    return value;
+  }
+  
+  if (INTEGER_TYPES.has(type)) {
+    return INTEGER_PATTERN.test(value) ? Number(value) : fail();
+  }
+  
+  switch (type) {
+    case 'bool':
+      if (value === 't' || value === 'true') return true;
+      if (value === 'f' || value === 'false') return false;
+      return fail();
+      
+    case 'int8': {
+      if (!INTEGER_PATTERN.test(value)) fail();
+      const big = BigInt(value);
+      return big >= BigInt(Number.MIN_SAFE_INTEGER) && big <= BigInt(Number.MAX_SAFE_INTEGER) ? Number(big) : big;
+    }
+      
+    case 'numeric':
+      // Kept as text so no precision is lost
+      return NUMERIC_PATTERN.test(value) || value === 'NaN' ? value : fail();
+      
+    case 'uuid':
+      return UUID_PATTERN.test(value) ? value.toLowerCase() : fail();
+      
+    case 'timestamptz':
+    case 'timestamp':
+      return decodeTimestamp(value, type === 'timestamptz') ?? fail();
+      
+    case 'date':
+      return DATE_PATTERN.test(value) && !isNaN(Date.parse(value)) ? value : fail();
+      
+    case 'json':
+    case 'jsonb':
+      try {
+        return JSON.parse(value);
+      } catch {
+        return fail();
+      }
+  }
+  
+  if (FLOAT_TYPES.has(type)) {
+    if (value === 'NaN') return NaN;
+    if (value === 'Infinity') return Infinity;
+    if (value === '-Infinity') return -Infinity;
+    return NUMERIC_PATTERN.test(value) ? Number(value) : fail();
+  }
+  
+  throw new ShapeDecodeError(`Column "${column}" has unsupported type ${schema.type}`);
+}
+
+/**
+ * Decode a row of wire values
+ * Columns the row doesn't carry (e.g. unchanged columns of an update) are left out
+ * @param row The raw row from the shape log
+ * @param schema The shape's schema
+ * @returns The typed row
+ * @throws ShapeDecodeError on the first column that can't be decoded
+ */
+export function decodeRow(row: Record<string, unknown>, schema: ShapeSchema): Record<string, unknown> {
+  const decoded: Record<string, unknown> = {};
+  
+  for (const [column, value] of Object.entries(row)) {
+    const columnSchema = schema[column];
+    if (!columnSchema) {
+      throw new ShapeDecodeError(`Column "${column}" is missing from the shape schema`);
+    }
+    decoded[column] = decodeValue(column, value, columnSchema);
+  }
+  
+  return decoded;
+}
+
+/**
+ * Normalise a Postgres timestamp to an ISO 8601 UTC string
+ * @param value Timestamp in Postgres text format
+ * @param withTimeZone Whether the value carries an offset (timestamptz)
+ * @returns The ISO string, or null if the value is malformed
+ */
+function decodeTimestamp(value: string, withTimeZone: boolean): string | null {
+  const match = TIMESTAMP_PATTERN.exec(value);
+  if (!match) {
+    return null;
+  }
+  
+  const [, date, time, fraction = '', zone] = match;
+  
+  // Date only handles milliseconds, Postgres sends up to microseconds
+  const millis = fraction ? fraction.substring(0, 4).padEnd(4, '0') : '';
+  
+  // timestamp without time zone is taken as UTC
+  let offset = 'Z';
+  if (withTimeZone && zone && zone !== 'Z') {
+    const digits = zone.replace(':', '');
+    offset = `${digits.substring(0, 3)}:${digits.substring(3, 5) || '00'}`;
+  }
+  
+  const parsed = new Date(`${date}T${time}${millis}${offset}`);
+  return isNaN(parsed.getTime()) ? null : parsed.toISOString();
+}
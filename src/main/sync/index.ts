@@ -6,19 +6,27 @@ import { electricClient, shapeProcessor } from './electric';
 import { supabaseService } from './supabase';
 import { offlineStorageService } from './offline';
 import { connectionMonitor, syncCoordinator } from './coordinator';
+import { shapeRegistry } from './shapes';
 
 // Re-export key types
-import type { ProcessedShapeEntry } from './electric';
+import type { ProcessedShapeEntry, ShapeParams } from './electric';
+import type { ShapeDefinition, ShapeApplyResult, ShapeFilter } from './shapes';
 import type { PendingOperation } from './offline';
-import type { ConnectionStatus, SyncResult, PendingOperationsResult } from './coordinator';
+import type { ConnectionStatus, SyncResult, PendingOperationsResult, PushOutcome, ShapeRebuildResult } from './coordinator';
 
 // Re-export types
 export type {
   ProcessedShapeEntry,
+  ShapeParams,
+  ShapeDefinition,
+  ShapeApplyResult,
+  ShapeFilter,
   PendingOperation,
   ConnectionStatus,
   SyncResult,
-  PendingOperationsResult
+  PendingOperationsResult,
+  PushOutcome,
+  ShapeRebuildResult
 };
 
 // Re-export classes
@@ -26,6 +34,8 @@ export * from './electric';
 export * from './supabase';
 export * from './offline';
 export * from './coordinator';
+export * from './shapes';
+export * from './conflict';
 
 // Export service instances
 export {
@@ -34,7 +44,8 @@ export {
   supabaseService,
   offlineStorageService,
   connectionMonitor,
-  syncCoordinator
+  syncCoordinator,
+  shapeRegistry
 };
 
 // Export as a single service
@@ -1,11 +1,13 @@
 /**
  * Offline module index file
- * Exports the offline storage service and types
+ * Exports the offline storage service, retry policy and types
  */
 import { offlineStorageService, OfflineStorageService } from './offline.storage';
-import type { PendingOperation } from './offline.storage';
+import { classifyFailure, getRetryDelay } from './retry.policy';
+import type { PendingOperation, EchoReconciliation, RowReference } from './offline.storage';
+import type { FailureKind, FailureOutcome } from './retry.policy';
 
-export { OfflineStorageService, offlineStorageService };
-export type { PendingOperation };
+export { OfflineStorageService, offlineStorageService, classifyFailure, getRetryDelay };
+export type { PendingOperation, EchoReconciliation, RowReference, FailureKind, FailureOutcome };
 
 export default offlineStorageService;
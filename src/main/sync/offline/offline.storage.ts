@@ -1,90 +1,258 @@
 /**
  * Offline storage manager
- * Responsible for managing operations performed while offline
+ * Keeps the outbox of local operations not yet pushed to Supabase, in the app's SQLite database
  */
+import * as crypto from 'crypto';
 import * as fs from 'fs';
 import * as path from 'path';
 import { app } from 'electron';
+import Database from 'better-sqlite3';
 import configService from '../../config';
 import { getLogger } from '../../logging';
-import { OfflineError } from '../../error/app.error';
+import { sqliteService } from '../../database';
+import { AppError, OfflineError, SupabaseRequestError } from '../../error/app.error';
+import { classifyFailure, getRetryDelay } from './retry.policy';
+import type { FailureOutcome } from './retry.policy';
+import type { DeadLetter } from '../../../@types/outbox';
 
 const logger = getLogger('OfflineStorage');
 
+// Columns of operation data that describe the change rather than being part of it
+const BOOKKEEPING_COLUMNS = new Set(['updated_at', 'field_versions']);
+
+/**
+ * A row of a synced table, e.g. one an operation depends on
+ */
+export interface RowReference {
+  /** Local table name */
+  table: string;
+  /** Serialized primary key */
+  rowId: string;
+}
+
 /**
  * Pending operation interface
  */
 export interface PendingOperation {
+  /** Outbox row id, increases with every queued operation */
+  id: number;
   type: 'create' | 'update' | 'delete';
-  todoId: string;
+  /** Local table of the changed row */
+  table: string;
+  /** Serialized primary key of the changed row */
+  rowId: string;
   data?: any;
   timestamp: number;
+  /** Failed attempts so far */
+  attempts: number;
+  /** Timestamp before which the operation is not retried */
+  nextAttemptAt: number;
+  /** Message of the last failed attempt */
+  lastError?: string;
+  /** Client mutation id sent along with the operation, echoed back by Electric */
+  mutationId: string;
+  /** Timestamp of when Supabase accepted the operation, unset until then */
+  pushedAt?: number;
+}
+
+/**
+ * What the outbox still holds for a row after an incoming shape entry was matched against it
+ */
+export interface EchoReconciliation {
+  /** Number of pushed operations the entry confirmed */
+  confirmed: number;
+  /** True if the row has an unconfirmed create, the entry must not touch the row at all */
+  pendingCreate: boolean;
+  /** True if the row has an unconfirmed delete, the entry must not bring the row back */
+  pendingDelete: boolean;
+  /** Columns with unconfirmed local changes, the entry must not overwrite them */
+  pendingColumns: Set<string>;
+}
+
+/**
+ * Row of the outbox table
+ */
+interface OutboxRow {
+  id: number;
+  type: 'create' | 'update' | 'delete';
+  table_name: string;
+  row_id: string;
+  data: string | null;
+  created_at: number;
+  attempts: number;
+  next_attempt_at: number;
+  last_error: string | null;
+  mutation_id: string | null;
+  pushed_at: number | null;
+}
+
+/**
+ * Row of the outbox_dead_letters table
+ */
+interface DeadLetterRow {
+  id: number;
+  type: 'create' | 'update' | 'delete';
+  table_name: string;
+  row_id: string;
+  data: string | null;
+  created_at: number;
+  attempts: number;
+  error: string;
+  error_code: string | null;
+  failed_at: number;
+}
+
+/**
+ * Merge the data of two operations of a row, the later one taking precedence
+ * Field versions are merged per field, so the fields of the earlier operation keep theirs
+ * @param earlier Data of the queued operation
+ * @param later Data of the new operation
+ */
+function mergeOperationData(earlier: any, later: any): any {
+  const merged = { ...earlier, ...later };
+  if (earlier?.field_versions || later?.field_versions) {
+    merged.field_versions = { ...earlier?.field_versions, ...later?.field_versions };
+  }
+  return merged;
 }
 
 /**
  * Offline storage service
  */
 export class OfflineStorageService {
-  private pendingOperationsPath: string;
-  private pendingOperations: PendingOperation[] = [];
+  private legacyQueuePath: string;
+  private legacyQueueChecked: boolean = false;
+  private inFlight: Set<number> = new Set();
+  private maxAttempts: number;
+  private confirmTimeout: number;
   
   constructor() {
-    this.pendingOperationsPath = configService.getOrDefault(
+    this.legacyQueuePath = configService.getOrDefault(
       'OFFLINE_STORAGE_PATH',
       path.join(app.getPath('userData'), 'pending-operations.json')
     );
+    this.maxAttempts = configService.getOrDefault('OUTBOX_MAX_ATTEMPTS', 8, 'number');
+    this.confirmTimeout = configService.getOrDefault('OUTBOX_CONFIRM_TIMEOUT', 120000, 'number');
+  }
+  
+  /**
+   * Initialize the outbox
+   * Imports the legacy JSON queue before any local write can add to the outbox, and gives
+   * operations queued before mutation ids were tracked one of their own
+   */
+  public initialize(): void {
+    this.migrateLegacyQueue();
     
-    logger.info(`Initializing offline storage with path: ${this.pendingOperationsPath}`);
-    this.loadPendingOperations();
+    const unassigned = sqliteService.queryAll<{ id: number }>('SELECT id FROM outbox WHERE mutation_id IS NULL');
+    if (unassigned.length > 0) {
+      sqliteService.transaction(db => {
+        const assignStmt = db.prepare('UPDATE outbox SET mutation_id = ? WHERE id = ?');
+        for (const row of unassigned) {
+          assignStmt.run(crypto.randomUUID(), row.id);
+        }
+      });
+      logger.info(`Assigned mutation ids to ${unassigned.length} queued operations`);
+    }
   }
   
   /**
-   * Add a pending operation when offline
+   * Add a pending operation to the outbox
+   * Pass the database of the transaction that performs the local write, so the write and
+   * its outbox entry commit together.
+   * The operation is coalesced with the row's latest queued operation unless that one is
+   * being pushed or was pushed already:
+   * - create + update: a create with the merged data
+   * - create + delete: nothing is sent for the row
+   * - update + update: a merged patch
+   * - update + delete: the delete, coalesced further with what was queued before the update
+   * A coalesced operation keeps the position of the first operation it absorbed
+   * @param table Local table of the changed row
    * @param type The operation type (create, update, delete)
-   * @param todoId The ID of the todo
-   * @param data The todo data (required for create/update)
+   * @param rowId Serialized primary key of the changed row
+   * @param data The row data for a create, the changed fields for an update
+   * @param db Database instance of the surrounding transaction
+   * @returns The queued operation, or null if it cancelled out the queued operations of the row
    */
-  public addPendingOperation(type: 'create' | 'update' | 'delete', todoId: string, data?: any): void {
+  public addPendingOperation(
+    table: string,
+    type: 'create' | 'update' | 'delete',
+    rowId: string,
+    data?: any,
+    db?: Database.Database
+  ): PendingOperation | null {
     // Validate required data
     if ((type === 'create' || type === 'update') && !data) {
-      logger.error(`Cannot add pending ${type} operation without data for todo ${todoId}`);
+      logger.error(`Cannot add pending ${type} operation without data for ${table} ${rowId}`);
       throw new OfflineError(`Cannot add pending ${type} operation without data`);
     }
     
-    logger.info(`Adding pending ${type} operation for todo ${todoId}`);
+    this.migrateLegacyQueue();
     
-    // Create operation object
-    const operation: PendingOperation = {
-      type,
-      todoId,
-      data,
-      timestamp: Date.now()
-    };
+    logger.info(`Adding pending ${type} operation for ${table} ${rowId}`);
     
-    // Check for duplicates and replace if exists
-    const existingIndex = this.pendingOperations.findIndex(
-      op => op.todoId === todoId && op.type === type
-    );
+    const enqueue = (tx: Database.Database): PendingOperation | null => {
+      const latestStmt = tx.prepare('SELECT * FROM outbox WHERE table_name = ? AND row_id = ? ORDER BY id DESC LIMIT 1');
+      const updateStmt = tx.prepare('UPDATE outbox SET data = ? WHERE id = ?');
+      const deleteStmt = tx.prepare('DELETE FROM outbox WHERE id = ?');
+      
+      let latest = latestStmt.get(table, rowId) as OutboxRow | undefined;
+      while (latest && latest.pushed_at === null && !this.inFlight.has(latest.id)) {
+        const queued = this.toPendingOperation(latest);
+        
+        if ((queued.type === 'create' || queued.type === 'update') && type === 'update') {
+          const merged = mergeOperationData(queued.data, data);
+          updateStmt.run(JSON.stringify(merged), queued.id);
+          logger.debug(`Merged update of ${table} ${rowId} into pending ${queued.type} ${queued.id}`);
+          return { ...queued, data: merged };
+        }
+        
+        if (queued.type === 'create' && type === 'delete') {
+          deleteStmt.run(queued.id);
+          logger.debug(`Delete of ${table} ${rowId} cancelled pending create ${queued.id}, nothing to send`);
+          return null;
+        }
+        
+        if (queued.type === 'update' && type === 'delete') {
+          deleteStmt.run(queued.id);
+          logger.debug(`Delete of ${table} ${rowId} superseded pending update ${queued.id}`);
+          latest = latestStmt.get(table, rowId) as OutboxRow | undefined;
+          continue;
+        }
+        
+        break;
+      }
+      
+      const timestamp = Date.now();
+      const mutationId = crypto.randomUUID();
+      const info = tx.prepare(
+        'INSERT INTO outbox (type, table_name, row_id, data, created_at, mutation_id) VALUES (?, ?, ?, ?, ?, ?)'
+      ).run(type, table, rowId, data !== undefined ? JSON.stringify(data) : null, timestamp, mutationId);
+      
+      return { id: Number(info.lastInsertRowid), type, table, rowId, data, timestamp, attempts: 0, nextAttemptAt: 0, mutationId };
+    };
     
-    if (existingIndex >= 0) {
-      logger.debug(`Replacing existing pending ${type} operation for todo ${todoId}`);
-      this.pendingOperations[existingIndex] = operation;
-    } else {
-      logger.debug(`Adding new pending ${type} operation for todo ${todoId}`);
-      this.pendingOperations.push(operation);
+    try {
+      return db ? enqueue(db) : sqliteService.transaction(enqueue);
+    } catch (error) {
+      logger.error(`Failed to add pending ${type} operation for ${table} ${rowId}`, error);
+      throw new OfflineError(`Failed to add pending operation: ${(error as Error).message}`);
     }
-    
-    // Save changes
-    this.savePendingOperations();
   }
   
   /**
    * Get all pending operations
-   * @returns Array of pending operations
+   * Operations pushed already and waiting for their echo are left out
+   * @returns Array of pending operations, in the order they were made
    */
   public getPendingOperations(): PendingOperation[] {
-    logger.debug(`Getting all pending operations (${this.pendingOperations.length})`);
-    return [...this.pendingOperations];
+    this.migrateLegacyQueue();
+    
+    const operations = sqliteService
+      .queryAll<OutboxRow>('SELECT * FROM outbox WHERE pushed_at IS NULL ORDER BY id')
+      .map(row => this.toPendingOperation(row));
+    
+    logger.debug(`Getting all pending operations (${operations.length})`);
+    return operations;
   }
   
   /**
@@ -93,88 +261,346 @@ export class OfflineStorageService {
    * @returns Array of pending operations of the specified type
    */
   public getPendingOperationsByType(type: 'create' | 'update' | 'delete'): PendingOperation[] {
-    const operations = this.pendingOperations.filter(op => op.type === type);
+    this.migrateLegacyQueue();
+    
+    const operations = sqliteService
+      .queryAll<OutboxRow>('SELECT * FROM outbox WHERE type = ? AND pushed_at IS NULL ORDER BY id', [type])
+      .map(row => this.toPendingOperation(row));
+    
     logger.debug(`Getting pending operations of type ${type} (${operations.length})`);
-    return [...operations];
+    return operations;
   }
   
   /**
-   * Clear a specific pending operation
-   * @param todoId The ID of the todo
-   * @param type Optional operation type (if not specified, clears all operations for the todo)
+   * Get the rows of a table with local changes Electric hasn't confirmed yet
+   * @param table Local table name
+   * @returns IDs of the rows with queued or pushed but unconfirmed operations
    */
-  public clearPendingOperation(todoId: string, type?: 'create' | 'update' | 'delete'): void {
-    const initialCount = this.pendingOperations.length;
+  public getUnconfirmedRowIds(table: string): Set<string> {
+    this.migrateLegacyQueue();
     
-    if (type) {
-      logger.info(`Clearing pending ${type} operation for todo ${todoId}`);
-      this.pendingOperations = this.pendingOperations.filter(
-        op => !(op.todoId === todoId && op.type === type)
-      );
-    } else {
-      logger.info(`Clearing all pending operations for todo ${todoId}`);
-      this.pendingOperations = this.pendingOperations.filter(
-        op => op.todoId !== todoId
+    return new Set(
+      sqliteService
+        .queryAll<{ row_id: string }>('SELECT DISTINCT row_id FROM outbox WHERE table_name = ?', [table])
+        .map(row => row.row_id)
+    );
+  }
+  
+  /**
+   * Check whether an operation can be pushed now
+   * @param operation The queued operation
+   * @param dependencies Rows the operation refers to, which must reach Supabase first
+   * @returns False if it is being pushed, waiting out its backoff, queued behind another
+   *   operation of its row or of a row it depends on (including a dead-lettered one), or
+   *   its row has an open conflict
+   */
+  public canPushOperation(operation: PendingOperation, dependencies: RowReference[] = []): boolean {
+    if (this.inFlight.has(operation.id)) {
+      return false;
+    }
+    
+    const first = sqliteService.queryOne<OutboxRow>(
+      'SELECT * FROM outbox WHERE table_name = ? AND row_id = ? AND pushed_at IS NULL ORDER BY id LIMIT 1',
+      [operation.table, operation.rowId]
+    );
+    if (!first || first.id !== operation.id || first.next_attempt_at > Date.now()) {
+      return false;
+    }
+    
+    for (const row of [{ table: operation.table, rowId: operation.rowId }, ...dependencies]) {
+      const deadLetter = sqliteService.queryOne<{ id: number }>(
+        'SELECT id FROM outbox_dead_letters WHERE table_name = ? AND row_id = ? AND id < ? LIMIT 1',
+        [row.table, row.rowId, operation.id]
       );
+      if (deadLetter) {
+        return false;
+      }
     }
     
-    const clearedCount = initialCount - this.pendingOperations.length;
-    logger.debug(`Cleared ${clearedCount} pending operations`);
+    for (const dependency of dependencies) {
+      const earlier = sqliteService.queryOne<{ id: number }>(
+        'SELECT id FROM outbox WHERE table_name = ? AND row_id = ? AND pushed_at IS NULL AND id < ? LIMIT 1',
+        [dependency.table, dependency.rowId, operation.id]
+      );
+      if (earlier) {
+        return false;
+      }
+    }
     
-    // Save changes if any operations were removed
-    if (clearedCount > 0) {
-      this.savePendingOperations();
+    // Pushing would settle the conflict for the user
+    const conflict = sqliteService.queryOne<{ id: number }>(
+      'SELECT id FROM sync_conflicts WHERE table_name = ? AND row_id = ? LIMIT 1',
+      [operation.table, operation.rowId]
+    );
+    return !conflict;
+  }
+  
+  /**
+   * Claim an operation for pushing
+   * A claimed operation is never coalesced with, later changes to its row queue behind it
+   * @param operation The operation about to be pushed
+   * @param dependencies Rows the operation refers to, see canPushOperation
+   * @returns False if the operation can't be pushed now, see canPushOperation
+   */
+  public beginOperation(operation: PendingOperation, dependencies: RowReference[] = []): boolean {
+    if (!this.canPushOperation(operation, dependencies)) {
+      return false;
     }
+    
+    this.inFlight.add(operation.id);
+    return true;
   }
   
   /**
-   * Clear all pending operations
+   * Record that Supabase accepted an operation
+   * It stays in the outbox, protecting the local row, until Electric echoes it back
+   * (see confirmEcho) or OUTBOX_CONFIRM_TIMEOUT passes
+   * @param id Outbox row id of the operation
    */
-  public clearAllPendingOperations(): void {
-    logger.info(`Clearing all ${this.pendingOperations.length} pending operations`);
-    this.pendingOperations = [];
-    this.savePendingOperations();
+  public markOperationPushed(id: number): void {
+    this.inFlight.delete(id);
+    sqliteService.execute('UPDATE outbox SET pushed_at = ? WHERE id = ?', [Date.now(), id]);
   }
   
   /**
-   * Save pending operations to file
+   * Match an incoming shape entry of a row against the row's outbox
+   * An insert or update carrying the mutation id of a pushed operation confirms it, along
+   * with the operations of the row pushed before it; a delete confirms a pushed delete.
+   * Whatever is left unconfirmed afterwards is newer local state the entry must not clobber.
+   * An operation whose echo arrives before its push returned is confirmed as well
+   * @param db Database instance of the surrounding transaction
+   * @param table Local table of the row
+   * @param rowId Serialized primary key of the row
+   * @param operation The shape entry operation
+   * @param mutationId Client mutation id carried by the entry, if any
+   * @returns What is left unconfirmed for the row
    */
-  private savePendingOperations(): void {
-    try {
-      // Create directory if it doesn't exist
-      const dirPath = path.dirname(this.pendingOperationsPath);
-      if (!fs.existsSync(dirPath)) {
-        fs.mkdirSync(dirPath, { recursive: true });
+  public confirmEcho(
+    db: Database.Database,
+    table: string,
+    rowId: string,
+    operation: 'insert' | 'update' | 'delete',
+    mutationId?: string | null
+  ): EchoReconciliation {
+    const rows = db.prepare(
+      'SELECT * FROM outbox WHERE table_name = ? AND row_id = ? ORDER BY id'
+    ).all(table, rowId) as OutboxRow[];
+    const reconciliation: EchoReconciliation = { confirmed: 0, pendingCreate: false, pendingDelete: false, pendingColumns: new Set() };
+    if (rows.length === 0) {
+      return reconciliation;
+    }
+    
+    const isSent = (row: OutboxRow) => row.pushed_at !== null || this.inFlight.has(row.id);
+    const echoed = operation === 'delete'
+      ? rows.findIndex(row => row.type === 'delete' && isSent(row))
+      : mutationId ? rows.findIndex(row => row.mutation_id === mutationId && isSent(row)) : -1;
+    
+    if (echoed >= 0) {
+      const deleteStmt = db.prepare('DELETE FROM outbox WHERE id = ?');
+      for (const row of rows.slice(0, echoed + 1)) {
+        deleteStmt.run(row.id);
+        this.inFlight.delete(row.id);
       }
-      
-      fs.writeFileSync(
-        this.pendingOperationsPath,
-        JSON.stringify(this.pendingOperations, null, 2)
+      reconciliation.confirmed = echoed + 1;
+      logger.debug(`Electric confirmed ${reconciliation.confirmed} operation(s) of ${table} ${rowId}`);
+    }
+    
+    for (const row of rows.slice(echoed + 1)) {
+      const queued = this.toPendingOperation(row);
+      if (queued.type === 'create') {
+        reconciliation.pendingCreate = true;
+      } else if (queued.type === 'delete') {
+        reconciliation.pendingDelete = true;
+      } else if (queued.type === 'update') {
+        Object.keys(queued.data ?? {})
+          .filter(column => !BOOKKEEPING_COLUMNS.has(column))
+          .forEach(column => reconciliation.pendingColumns.add(column));
+      }
+    }
+    
+    return reconciliation;
+  }
+  
+  /**
+   * Give up waiting for the echo of pushed operations
+   * Supabase accepted them, but Electric never sent them back, e.g. because the row is
+   * outside the shape or its client_mutation_id column isn't synced
+   * @returns Number of operations removed from the outbox
+   */
+  public expireUnconfirmedOperations(): number {
+    const result = sqliteService.execute(
+      'DELETE FROM outbox WHERE pushed_at IS NOT NULL AND pushed_at <= ?',
+      [Date.now() - this.confirmTimeout]
+    );
+    if (result.changes > 0) {
+      logger.warn(`No echo from Electric for ${result.changes} pushed operation(s) within ${Math.round(this.confirmTimeout / 1000)}s, treating them as confirmed`);
+    }
+    return result.changes;
+  }
+  
+  /**
+   * Record a failed push
+   * Network failures are retried once back online without counting an attempt; other
+   * retryable failures are retried with backoff until OUTBOX_MAX_ATTEMPTS is reached;
+   * permanent failures and exhausted operations are moved to the dead letters
+   * @param operation The operation that failed
+   * @param error The error thrown while pushing
+   * @returns What became of the operation
+   */
+  public failOperation(operation: PendingOperation, error: unknown): FailureOutcome {
+    this.inFlight.delete(operation.id);
+    
+    const kind = classifyFailure(error);
+    if (kind === 'network') {
+      return 'network';
+    }
+    
+    const attempts = operation.attempts + 1;
+    const message = (error as Error)?.message ?? String(error);
+    const errorCode = error instanceof SupabaseRequestError
+      ? error.pgCode || `HTTP ${error.status}`
+      : error instanceof AppError ? error.code : undefined;
+    
+    if (kind === 'retryable' && attempts < this.maxAttempts) {
+      const delay = getRetryDelay(attempts);
+      sqliteService.execute(
+        'UPDATE outbox SET attempts = ?, next_attempt_at = ?, last_error = ? WHERE id = ?',
+        [attempts, Date.now() + delay, message, operation.id]
       );
-      logger.debug(`Saved ${this.pendingOperations.length} pending operations to storage`);
-    } catch (error) {
-      logger.error('Failed to save pending operations', error);
-      throw new OfflineError(`Failed to save pending operations: ${(error as Error).message}`);
+      logger.warn(`${operation.type} of ${operation.table} ${operation.rowId} failed (attempt ${attempts}/${this.maxAttempts}), retrying in ${Math.round(delay / 1000)}s: ${message}`);
+      return 'retrying';
     }
+    
+    sqliteService.transaction(db => {
+      db.prepare(
+        `INSERT OR REPLACE INTO outbox_dead_letters (id, type, table_name, row_id, data, created_at, attempts, error, error_code, failed_at)
+         SELECT id, type, table_name, row_id, data, created_at, ?, ?, ?, ? FROM outbox WHERE id = ?`
+      ).run(attempts, message, errorCode ?? null, Date.now(), operation.id);
+      db.prepare('DELETE FROM outbox WHERE id = ?').run(operation.id);
+    });
+    
+    logger.error(`${operation.type} of ${operation.table} ${operation.rowId} moved to the dead letters after ${attempts} attempt(s): ${message}`);
+    return 'dead-lettered';
   }
   
   /**
-   * Load pending operations from file
+   * Release an operation that wasn't pushed after all, it stays in the outbox as is
+   * @param id Outbox row id of the operation
    */
-  private loadPendingOperations(): void {
-    try {
-      if (fs.existsSync(this.pendingOperationsPath)) {
-        const data = fs.readFileSync(this.pendingOperationsPath, 'utf8');
-        this.pendingOperations = JSON.parse(data);
-        logger.info(`Loaded ${this.pendingOperations.length} pending operations from storage`);
-      } else {
-        logger.info('No pending operations file found, starting with empty queue');
-        this.pendingOperations = [];
-      }
-    } catch (error) {
-      logger.error('Failed to load pending operations', error);
-      this.pendingOperations = [];
+  public releaseOperation(id: number): void {
+    this.inFlight.delete(id);
+  }
+  
+  /**
+   * Get the time of the next scheduled retry
+   * @returns Timestamp of the earliest backed-off operation or confirmation deadline of a
+   *   pushed one, or undefined if none is waiting
+   */
+  public getNextRetryTime(): number | undefined {
+    const row = sqliteService.queryOne<{ next: number | null }>(
+      `SELECT MIN(next) AS next FROM (
+         SELECT next_attempt_at AS next FROM outbox WHERE pushed_at IS NULL AND next_attempt_at > ?
+         UNION ALL
+         SELECT pushed_at + ? AS next FROM outbox WHERE pushed_at IS NOT NULL
+       )`,
+      [Date.now(), this.confirmTimeout]
+    );
+    return row?.next ?? undefined;
+  }
+  
+  /**
+   * Get all dead-lettered operations
+   * @returns Array of dead letters, in the order the operations were made
+   */
+  public getDeadLetters(): DeadLetter[] {
+    return sqliteService
+      .queryAll<DeadLetterRow>('SELECT * FROM outbox_dead_letters ORDER BY id')
+      .map(row => ({
+        id: row.id,
+        type: row.type,
+        table: row.table_name,
+        rowId: row.row_id,
+        data: row.data !== null ? JSON.parse(row.data) : undefined,
+        attempts: row.attempts,
+        error: row.error,
+        errorCode: row.error_code ?? undefined,
+        createdAt: row.created_at,
+        failedAt: row.failed_at
+      }));
+  }
+  
+  /**
+   * Put a dead-lettered operation back into the outbox
+   * It returns to its original place in the queue, with a fresh attempt count and mutation id
+   * @param id Outbox id of the operation
+   * @returns True if the operation was requeued, false if there is no such dead letter
+   */
+  public retryDeadLetter(id: number): boolean {
+    const requeued = sqliteService.transaction(db => {
+      const info = db.prepare(
+        `INSERT INTO outbox (id, type, table_name, row_id, data, created_at, attempts, next_attempt_at, last_error, mutation_id)
+         SELECT id, type, table_name, row_id, data, created_at, 0, 0, NULL, ? FROM outbox_dead_letters WHERE id = ?`
+      ).run(crypto.randomUUID(), id);
+      db.prepare('DELETE FROM outbox_dead_letters WHERE id = ?').run(id);
+      return info.changes > 0;
+    });
+    
+    if (requeued) {
+      logger.info(`Dead-lettered operation ${id} requeued`);
+    } else {
+      logger.warn(`No dead-lettered operation ${id} to retry`);
+    }
+    return requeued;
+  }
+  
+  /**
+   * Discard a dead-lettered operation
+   * The change is never sent; the local row keeps it until a remote change overwrites it
+   * @param id Outbox id of the operation
+   * @returns True if the dead letter was removed
+   */
+  public discardDeadLetter(id: number): boolean {
+    const result = sqliteService.execute('DELETE FROM outbox_dead_letters WHERE id = ?', [id]);
+    if (result.changes > 0) {
+      logger.info(`Dead-lettered operation ${id} discarded`);
+      return true;
     }
+    logger.warn(`No dead-lettered operation ${id} to discard`);
+    return false;
+  }
+  
+  /**
+   * Clear a specific pending operation
+   * @param table Local table of the row
+   * @param rowId Serialized primary key of the row
+   * @param type Optional operation type (if not specified, clears all operations for the row)
+   */
+  public clearPendingOperation(table: string, rowId: string, type?: 'create' | 'update' | 'delete'): void {
+    this.migrateLegacyQueue();
+    
+    let result: Database.RunResult;
+    if (type) {
+      logger.info(`Clearing pending ${type} operation for ${table} ${rowId}`);
+      result = sqliteService.execute(
+        'DELETE FROM outbox WHERE table_name = ? AND row_id = ? AND type = ?',
+        [table, rowId, type]
+      );
+    } else {
+      logger.info(`Clearing all pending operations for ${table} ${rowId}`);
+      result = sqliteService.execute('DELETE FROM outbox WHERE table_name = ? AND row_id = ?', [table, rowId]);
+    }
+    
+    logger.debug(`Cleared ${result.changes} pending operations`);
+  }
+  
+  /**
+   * Clear all pending operations
+   */
+  public clearAllPendingOperations(): void {
+    this.migrateLegacyQueue();
+    
+    const result = sqliteService.execute('DELETE FROM outbox');
+    logger.info(`Cleared all ${result.changes} pending operations`);
   }
   
   /**
@@ -182,7 +608,7 @@ export class OfflineStorageService {
    * @returns True if there are pending operations, false otherwise
    */
   public hasPendingOperations(): boolean {
-    return this.pendingOperations.length > 0;
+    return this.getPendingOperationsCount() > 0;
   }
   
   /**
@@ -190,10 +616,85 @@ export class OfflineStorageService {
    * @returns The number of pending operations
    */
   public getPendingOperationsCount(): number {
-    return this.pendingOperations.length;
+    this.migrateLegacyQueue();
+    
+    return sqliteService.queryOne<{ count: number }>('SELECT COUNT(*) AS count FROM outbox')?.count ?? 0;
+  }
+  
+  /**
+   * Convert an outbox row into a pending operation
+   */
+  private toPendingOperation(row: OutboxRow): PendingOperation {
+    return {
+      id: row.id,
+      type: row.type,
+      table: row.table_name,
+      rowId: row.row_id,
+      data: row.data !== null ? JSON.parse(row.data) : undefined,
+      timestamp: row.created_at,
+      attempts: row.attempts,
+      nextAttemptAt: row.next_attempt_at,
+      lastError: row.last_error ?? undefined,
+      mutationId: row.mutation_id ?? '',
+      pushedAt: row.pushed_at ?? undefined
+    };
+  }
+  
+  /**
+   * Import the pending-operations.json queue used by earlier versions
+   * Runs once; the file is renamed afterwards so it is never imported again. A file that
+   * can't be read is kept aside as .corrupt instead of being dropped
+   */
+  private migrateLegacyQueue(): void {
+    if (this.legacyQueueChecked) {
+      return;
+    }
+    
+    if (!fs.existsSync(this.legacyQueuePath)) {
+      this.legacyQueueChecked = true;
+      return;
+    }
+    
+    logger.info(`Migrating pending operations from ${this.legacyQueuePath}`);
+    
+    // Earlier versions only queued todos
+    let operations: (Omit<PendingOperation, 'id' | 'mutationId' | 'table' | 'rowId'> & { todoId: string })[];
+    try {
+      operations = JSON.parse(fs.readFileSync(this.legacyQueuePath, 'utf8'));
+      if (!Array.isArray(operations)) {
+        throw new Error('expected an array of operations');
+      }
+    } catch (error) {
+      const corruptPath = `${this.legacyQueuePath}.corrupt`;
+      logger.error(`Failed to read pending operations, the file is kept at ${corruptPath} and nothing was imported`, error);
+      fs.renameSync(this.legacyQueuePath, corruptPath);
+      this.legacyQueueChecked = true;
+      return;
+    }
+    
+    // The old queue was rewritten in place, so its order is not the order operations were made in
+    const sorted = [...operations].sort((a, b) => (a.timestamp ?? 0) - (b.timestamp ?? 0));
+    
+    sqliteService.transaction(db => {
+      const insertStmt = db.prepare(
+        "INSERT INTO outbox (type, table_name, row_id, data, created_at, mutation_id) VALUES (?, 'todos', ?, ?, ?, ?)"
+      );
+      
+      for (const op of sorted) {
+        if (!op.todoId || !['create', 'update', 'delete'].includes(op.type)) {
+          logger.warn('Skipping malformed pending operation:', JSON.stringify(op).substring(0, 500));
+          continue;
+        }
+        insertStmt.run(op.type, op.todoId, op.data !== undefined ? JSON.stringify(op.data) : null, op.timestamp ?? Date.now(), crypto.randomUUID());
+      }
+    });
+    
+    fs.renameSync(this.legacyQueuePath, `${this.legacyQueuePath}.migrated`);
+    this.legacyQueueChecked = true;
+    logger.info(`Migrated ${sorted.length} pending operations into the outbox`);
   }
 }
 
 // Export as singleton
 export const offlineStorageService = new OfflineStorageService();
-export default offlineStorageService;
\ No newline at end of file
+export default offlineStorageService;
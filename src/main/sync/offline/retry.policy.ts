@@ -0,0 +1,70 @@
+/**
+ * Outbox retry policy
+ * Decides whether a failed push is worth retrying and when
+ */
+import { NetworkError, SupabaseRequestError } from '../../error/app.error';
+
+/**
+ * How a failed push is handled
+ * - network: Supabase couldn't be reached, retried once back online without counting an attempt
+ * - retryable: a transient server-side failure, retried with backoff
+ * - permanent: retrying can't help, the operation is dead-lettered right away
+ */
+export type FailureKind = 'network' | 'retryable' | 'permanent';
+
+/**
+ * What became of an operation after a failed push
+ */
+export type FailureOutcome = 'network' | 'retrying' | 'dead-lettered';
+
+// Backoff bounds for retryable failures
+const RETRY_BASE_DELAY = 2000;
+const RETRY_MAX_DELAY = 5 * 60 * 1000;
+
+// HTTP statuses that signal a temporary condition
+const RETRYABLE_STATUSES = new Set([408, 425, 429, 500, 502, 503, 504]);
+
+// Postgres error classes that signal a temporary condition: connection exception,
+// transaction rollback (serialization failures, deadlocks), insufficient resources,
+// operator intervention (e.g. shutdown)
+const RETRYABLE_PG_CLASSES = new Set(['08', '40', '53', '57']);
+
+/**
+ * Classify the error of a failed push
+ * @param error The error thrown while pushing
+ * @returns How the failure is handled
+ */
+export function classifyFailure(error: unknown): FailureKind {
+  if (error instanceof NetworkError) {
+    return 'network';
+  }
+  
+  if (error instanceof SupabaseRequestError) {
+    // postgrest reports a fetch that never got a response as status 0
+    if (error.status === 0) {
+      return 'network';
+    }
+    if (error.pgCode && RETRYABLE_PG_CLASSES.has(error.pgCode.substring(0, 2))) {
+      return 'retryable';
+    }
+    if (RETRYABLE_STATUSES.has(error.status)) {
+      return 'retryable';
+    }
+    // Constraint violations, malformed data, permission errors and the like
+    return 'permanent';
+  }
+  
+  // Unknown failures get the benefit of the doubt, bounded by the attempt limit
+  return 'retryable';
+}
+
+/**
+ * Get the delay before the next attempt
+ * Exponential backoff with jitter, so operations that failed together don't retry in lockstep
+ * @param attempts Number of failed attempts so far (at least 1)
+ * @returns Delay in milliseconds
+ */
+export function getRetryDelay(attempts: number): number {
+  const backoff = Math.min(RETRY_MAX_DELAY, RETRY_BASE_DELAY * 2 ** Math.max(0, attempts - 1));
+  return Math.round(backoff / 2 + Math.random() * (backoff / 2));
+}
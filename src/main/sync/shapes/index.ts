@@ -0,0 +1,11 @@
+/**
+ * Shapes module index file
+ * Exports the shape registry and types
+ */
+import { shapeRegistry, ShapeRegistry } from './shape.registry';
+import type { ShapeDefinition, ShapeApplyResult, ShapeFilter } from './shape.registry';
+
+export { ShapeRegistry, shapeRegistry };
+export type { ShapeDefinition, ShapeApplyResult, ShapeFilter };
+
+export default shapeRegistry;
@@ -0,0 +1,241 @@
+/**
+ * Shape registry
+ * Keeps track of the Electric shapes the app subscribes to and how each one is applied locally
+ */
+import { EventEmitter } from 'events';
+import Database from 'better-sqlite3';
+import { getLogger } from '../../logging';
+import { SyncError, SyncConflictError } from '../../error/app.error';
+import { getPrimaryKeyColumns } from '../electric';
+import type { ProcessedShapeEntry, ShapeSchema } from '../electric';
+import type { PendingOperation, RowReference } from '../offline';
+import type { SyncConflict } from '../../../@types/conflict';
+
+const logger = getLogger('ShapeRegistry');
+
+/**
+ * Counts of rows touched while applying shape entries
+ */
+export interface ShapeApplyResult {
+  total: number;
+  inserts: number;
+  updates: number;
+  deletes: number;
+  /** Remote changes that couldn't be merged with unconfirmed local edits, which were kept */
+  conflicts?: SyncConflictError[];
+  /** Number of local changes queued while applying, e.g. to repair merged rows */
+  queued?: number;
+}
+
+/**
+ * Shape definition interface
+ * Declares a remote table to sync and how its changes land in SQLite
+ */
+export interface ShapeDefinition {
+  /** Unique name, also the key of the shape's persisted cursor */
+  name: string;
+  /** Remote table, optionally schema-qualified (e.g. "public.todos") */
+  table: string;
+  /** Columns to sync, all columns when omitted */
+  columns?: string[];
+  /** Optional SQL where clause evaluated by Electric */
+  where?: string;
+  /** Local SQLite table the shape is stored in */
+  localTable: string;
+  /**
+   * Declared column types, used for columns the electric-schema header doesn't cover
+   * (or before Electric has sent one)
+   */
+  schema?: ShapeSchema;
+  /**
+   * Primary key column(s) of the local table, in key order
+   * Taken from the schema's pk_index when omitted
+   */
+  primaryKey?: string | string[];
+  /** Renderer event sent when the shape's local data changes */
+  rendererEvent?: string;
+  /**
+   * Apply a batch of entries to the local table
+   * Called inside the transaction that also saves the shape's cursor; an entry that fails
+   * has to throw, rolling both back, never be skipped
+   */
+  apply: (db: Database.Database, entries: ProcessedShapeEntry[]) => ShapeApplyResult;
+  /**
+   * Ids of local rows with unpushed changes, left untouched when the shape is rebuilt
+   * Ids are serialized primary keys, see serializeRowKey
+   */
+  getPendingIds?: () => Set<string>;
+  /**
+   * Write the resolution of a conflict back through the module's write path, so it is
+   * pushed like any local change, with fresh field versions so the chosen values win over
+   * both sides
+   * Called inside a transaction that also closes the conflict
+   * @param conflict The conflict being resolved
+   * @param values The chosen values, null to accept the remote deletion of the row
+   * @returns False if the resolution couldn't be written
+   */
+  resolveConflict?: (conflict: SyncConflict, values: Record<string, unknown> | null) => boolean;
+  /**
+   * Push a queued local operation of the local table to Supabase
+   * @throws SupabaseRequestError or NetworkError, handled by the outbox's retry policy
+   */
+  push?: (operation: PendingOperation) => Promise<void>;
+  /**
+   * Rows of other tables a queued operation refers to (e.g. through a foreign key); it
+   * is only pushed once their earlier operations have reached Supabase
+   */
+  getDependencies?: (operation: PendingOperation) => RowReference[];
+}
+
+/**
+ * Shape filter, the parts of a definition that can change at runtime
+ */
+export type ShapeFilter = Pick<ShapeDefinition, 'columns' | 'where'>;
+
+/**
+ * Shape registry events
+ */
+export interface ShapeRegistryEvents {
+  'shape-registered': (shape: ShapeDefinition) => void;
+  'shape-updated': (shape: ShapeDefinition, previous: ShapeDefinition) => void;
+  'shape-unregistered': (shape: ShapeDefinition) => void;
+}
+
+/**
+ * Shape registry class
+ */
+export class ShapeRegistry extends EventEmitter {
+  private shapes: Map<string, ShapeDefinition> = new Map();
+  
+  /**
+   * Register a shape
+   * @param shape The shape definition
+   * @throws SyncError if a shape with the same name is already registered
+   */
+  public register(shape: ShapeDefinition): void {
+    if (this.shapes.has(shape.name)) {
+      throw new SyncError(`Shape already registered: ${shape.name}`);
+    }
+    
+    this.validate(shape);
+    
+    logger.info(`Registering shape "${shape.name}" for table ${shape.table} → ${shape.localTable}${this.describeFilter(shape)}`);
+    this.shapes.set(shape.name, shape);
+    this.emit('shape-registered', shape);
+  }
+  
+  /**
+   * Change the columns or where clause of a registered shape
+   * The sync coordinator resubscribes it from scratch and rebuilds its local table
+   * @param name The shape name
+   * @param filter The new filter, omitted keys are kept
+   * @returns The updated shape definition
+   * @throws SyncError if the shape is not registered
+   */
+  public update(name: string, filter: ShapeFilter): ShapeDefinition {
+    const previous = this.shapes.get(name);
+    if (!previous) {
+      throw new SyncError(`Shape not registered: ${name}`);
+    }
+    
+    const shape: ShapeDefinition = { ...previous, ...filter };
+    this.validate(shape);
+    
+    logger.info(`Updating shape "${name}"${this.describeFilter(shape)}`);
+    this.shapes.set(name, shape);
+    this.emit('shape-updated', shape, previous);
+    
+    return shape;
+  }
+  
+  /**
+   * Unregister a shape
+   * @param name The shape name
+   */
+  public unregister(name: string): void {
+    const shape = this.shapes.get(name);
+    if (!shape) {
+      return;
+    }
+    
+    logger.info(`Unregistering shape "${name}"`);
+    this.shapes.delete(name);
+    this.emit('shape-unregistered', shape);
+  }
+  
+  /**
+   * Get a shape by name
+   * @param name The shape name
+   * @returns The shape definition or undefined if not registered
+   */
+  public get(name: string): ShapeDefinition | undefined {
+    return this.shapes.get(name);
+  }
+  
+  /**
+   * Get the shape stored in a local table
+   * @param table The local table name
+   * @returns The shape definition or undefined if no shape is stored there
+   */
+  public getByLocalTable(table: string): ShapeDefinition | undefined {
+    return [...this.shapes.values()].find(shape => shape.localTable === table);
+  }
+  
+  /**
+   * Get all registered shapes, in registration order
+   * @returns Array of shape definitions
+   */
+  public getAll(): ShapeDefinition[] {
+    return [...this.shapes.values()];
+  }
+  
+  /**
+   * Check a shape definition can be synced
+   * @throws SyncError if the column list leaves out part of the primary key
+   */
+  private validate(shape: ShapeDefinition): void {
+    const primaryKey = getPrimaryKeyColumns(shape.schema, shape.primaryKey);
+    const missing = primaryKey.filter(column => shape.columns && shape.columns.length > 0 && !shape.columns.includes(column));
+    if (missing.length > 0) {
+      throw new SyncError(`Columns of shape "${shape.name}" must include its primary key (missing ${missing.join(', ')})`);
+    }
+  }
+  
+  /**
+   * Describe a shape's filter for logging
+   */
+  private describeFilter(shape: ShapeDefinition): string {
+    const parts: string[] = [];
+    if (shape.columns && shape.columns.length > 0) {
+      parts.push(`columns: ${shape.columns.join(', ')}`);
+    }
+    if (shape.where) {
+      parts.push(`where: ${shape.where}`);
+    }
+    return parts.length > 0 ? ` (${parts.join('; ')})` : '';
+  }
+  
+  /**
+   * Override TypeScript's default on method for better type checking
+   */
+  public on<E extends keyof ShapeRegistryEvents>(
+    event: E, 
+    listener: ShapeRegistryEvents[E]
+  ): this {
+    return super.on(event, listener as any);
+  }
+  
+  /**
+   * Override TypeScript's default emit method for better type checking
+   */
+  public emit<E extends keyof ShapeRegistryEvents>(
+    event: E, 
+    ...args: Parameters<ShapeRegistryEvents[E]>
+  ): boolean {
+    return super.emit(event, ...args);
+  }
+}
+
+// Export as singleton
+export const shapeRegistry = new ShapeRegistry();
+export default shapeRegistry;
@@ -4,7 +4,7 @@
 import { createClient, SupabaseClient } from '@supabase/supabase-js';
 import configService from '../../config';
 import { getLogger } from '../../logging';
-import { SupabaseError, NetworkError } from '../../error/app.error';
+import { SupabaseError, SupabaseRequestError, NetworkError } from '../../error/app.error';
 import { Todo } from '../../../@types/todo';
 
 const logger = getLogger('SupabaseClient');
@@ -62,111 +62,174 @@ export class SupabaseService {
   /**
    * Create a new todo in Supabase
    * @param todo The todo to create
-   * @returns True if successful, false otherwise
+   * @param mutationId Client mutation id of the local change, echoed back by Electric
+   * @returns True if successful
+   * @throws SupabaseRequestError if Supabase rejected the request, NetworkError if it couldn't be reached
    */
-  public async createTodo(todo: Todo): Promise<boolean> {
+  public async createTodo(todo: Todo, mutationId?: string): Promise<boolean> {
+    return this.upsertRow('todos', {
+      id: todo.id,
+      title: todo.title,
+      completed: typeof todo.completed === 'boolean' ? todo.completed : Boolean(todo.completed),
+      status: todo.status,
+      priority: todo.priority ?? null,
+      created_at: todo.created_at,
+      deleted_at: todo.deleted_at ?? null,
+      due_at: todo.due_at ?? null,
+      remind_before: todo.remind_before ?? null,
+      list_id: todo.list_id ?? null,
+      parent_id: todo.parent_id ?? null,
+      position: todo.position ?? null,
+      updated_at: todo.updated_at ?? todo.created_at,
+      field_versions: todo.field_versions ?? {}
+    }, 'id', mutationId);
+  }
+  
+  /**
+   * Update an existing todo in Supabase
+   * @param id The ID of the todo to update
+   * @param data The data to update
+   * @param mutationId Client mutation id of the local change, echoed back by Electric
+   * @returns True if successful
+   * @throws SupabaseRequestError if Supabase rejected the request, NetworkError if it couldn't be reached
+   */
+  public async updateTodo(id: string, data: Partial<Todo>, mutationId?: string): Promise<boolean> {
+    // Convert completed to boolean if it's a number
+    const updateData: Record<string, any> = { ...data };
+    if (updateData.completed !== undefined) {
+      updateData.completed = typeof updateData.completed === 'boolean' 
+        ? updateData.completed 
+        : Boolean(updateData.completed);
+    }
+    
+    return this.updateRow('todos', id, updateData, mutationId);
+  }
+  
+  /**
+   * Delete a todo from Supabase
+   * @param id The ID of the todo to delete
+   * @returns True if successful
+   * @throws SupabaseRequestError if Supabase rejected the request, NetworkError if it couldn't be reached
+   */
+  public async deleteTodo(id: string): Promise<boolean> {
+    return this.deleteRow('todos', id);
+  }
+  
+  /**
+   * Insert a row into a Supabase table, or overwrite the row with the same key
+   * Used for creates, so a retried create whose first attempt already landed isn't rejected
+   * as a duplicate key, and for rows that can be created on several devices independently
+   * @param table The table name
+   * @param row The row
+   * @param onConflict Comma-separated primary key columns
+   * @param mutationId Client mutation id of the local change, echoed back by Electric
+   * @returns True if successful
+   * @throws SupabaseRequestError if Supabase rejected the request, NetworkError if it couldn't be reached
+   */
+  public async upsertRow(table: string, row: Record<string, any>, onConflict: string, mutationId?: string): Promise<boolean> {
+    const key = onConflict.split(',').map(column => row[column.trim()]).join('/');
     try {
-      logger.info(`Creating todo in Supabase: ${todo.id}`);
+      logger.info(`Upserting row in Supabase ${table}: ${key}`);
       
-      const { error } = await this.supabase.from('todos').insert({
-        id: todo.id,
-        title: todo.title,
-        completed: typeof todo.completed === 'boolean' ? todo.completed : Boolean(todo.completed),
-        created_at: todo.created_at
-      });
+      const { error, status } = await this.supabase.from(table).upsert({
+        ...row,
+        client_mutation_id: mutationId ?? null
+      }, { onConflict });
       
       if (error) {
-        logger.error(`Failed to create todo in Supabase: ${todo.id}`, error);
-        return false;
+        logger.error(`Failed to upsert row in Supabase ${table}: ${key}`, error);
+        throw new SupabaseRequestError(`Failed to upsert ${table} row: ${error.message}`, status, error.code);
       }
       
-      logger.debug(`Todo created successfully in Supabase: ${todo.id}`);
+      logger.debug(`Row upserted successfully in Supabase ${table}: ${key}`);
       return true;
     } catch (error) {
-      logger.error(`Error creating todo in Supabase: ${todo.id}`, error);
-      
-      // Determine if it's a network error
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new NetworkError(`Network error creating todo: ${error.message}`);
-      } else {
-        throw new SupabaseError(`Error creating todo: ${(error as Error).message}`);
-      }
+      logger.error(`Error upserting row in Supabase ${table}: ${key}`, error);
+      throw this.toRequestError(error, `upserting ${table} row`);
     }
   }
   
   /**
-   * Update an existing todo in Supabase
-   * @param id The ID of the todo to update
-   * @param data The data to update
-   * @returns True if successful, false otherwise
+   * Update a row of a Supabase table
+   * @param table The table name
+   * @param id The ID of the row to update
+   * @param data The columns to update
+   * @param mutationId Client mutation id of the local change, echoed back by Electric
+   * @returns True if successful
+   * @throws SupabaseRequestError if Supabase rejected the request, NetworkError if it couldn't be reached
    */
-  public async updateTodo(id: string, data: Partial<Todo>): Promise<boolean> {
+  public async updateRow(table: string, id: string, data: Record<string, any>, mutationId?: string): Promise<boolean> {
     try {
-      logger.info(`Updating todo in Supabase: ${id}`);
+      logger.info(`Updating row in Supabase ${table}: ${id}`);
       
-      // Convert completed to boolean if it's a number
       const updateData: Record<string, any> = { ...data };
-      if (updateData.completed !== undefined) {
-        updateData.completed = typeof updateData.completed === 'boolean' 
-          ? updateData.completed 
-          : Boolean(updateData.completed);
-      }
       
       // Remove id from update data if present
       delete updateData.id;
       
-      const { error } = await this.supabase.from('todos')
+      // Always set, so Electric sends it along with the changed columns
+      updateData.client_mutation_id = mutationId ?? null;
+      
+      const { error, status } = await this.supabase.from(table)
         .update(updateData)
         .eq('id', id);
       
       if (error) {
-        logger.error(`Failed to update todo in Supabase: ${id}`, error);
-        return false;
+        logger.error(`Failed to update row in Supabase ${table}: ${id}`, error);
+        throw new SupabaseRequestError(`Failed to update ${table} row: ${error.message}`, status, error.code);
       }
       
-      logger.debug(`Todo updated successfully in Supabase: ${id}`);
+      logger.debug(`Row updated successfully in Supabase ${table}: ${id}`);
       return true;
     } catch (error) {
-      logger.error(`Error updating todo in Supabase: ${id}`, error);
-      
-      // Determine if it's a network error
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new NetworkError(`Network error updating todo: ${error.message}`);
-      } else {
-        throw new SupabaseError(`Error updating todo: ${(error as Error).message}`);
-      }
+      logger.error(`Error updating row in Supabase ${table}: ${id}`, error);
+      throw this.toRequestError(error, `updating ${table} row`);
     }
   }
   
   /**
-   * Delete a todo from Supabase
-   * @param id The ID of the todo to delete
-   * @returns True if successful, false otherwise
+   * Delete a row from a Supabase table
+   * @param table The table name
+   * @param key The ID of the row to delete, or the values of its primary key columns
+   * @returns True if successful
+   * @throws SupabaseRequestError if Supabase rejected the request, NetworkError if it couldn't be reached
    */
-  public async deleteTodo(id: string): Promise<boolean> {
+  public async deleteRow(table: string, key: string | Record<string, any>): Promise<boolean> {
+    const match = typeof key === 'string' ? { id: key } : key;
+    const id = Object.values(match).join('/');
     try {
-      logger.info(`Deleting todo from Supabase: ${id}`);
+      logger.info(`Deleting row from Supabase ${table}: ${id}`);
       
-      const { error } = await this.supabase.from('todos')
+      const { error, status } = await this.supabase.from(table)
         .delete()
-        .eq('id', id);
+        .match(match);
       
       if (error) {
-        logger.error(`Failed to delete todo from Supabase: ${id}`, error);
-        return false;
+        logger.error(`Failed to delete row from Supabase ${table}: ${id}`, error);
+        throw new SupabaseRequestError(`Failed to delete ${table} row: ${error.message}`, status, error.code);
       }
       
-      logger.debug(`Todo deleted successfully from Supabase: ${id}`);
+      logger.debug(`Row deleted successfully from Supabase ${table}: ${id}`);
       return true;
     } catch (error) {
-      logger.error(`Error deleting todo from Supabase: ${id}`, error);
-      
-      // Determine if it's a network error
-      if (error instanceof TypeError && error.message.includes('fetch')) {
-        throw new NetworkError(`Network error deleting todo: ${error.message}`);
-      } else {
-        throw new SupabaseError(`Error deleting todo: ${(error as Error).message}`);
-      }
+      logger.error(`Error deleting row from Supabase ${table}: ${id}`, error);
+      throw this.toRequestError(error, `deleting ${table} row`);
+    }
+  }
+  
+  /**
+   * Turn an error thrown while talking to Supabase into one the outbox's retry policy knows
+   * @param error The error
+   * @param action What was being done, for the message
+   */
+  private toRequestError(error: unknown, action: string): Error {
+    // Determine if it's a network error
+    if (error instanceof SupabaseRequestError) {
+      return error;
+    } else if (error instanceof TypeError && error.message.includes('fetch')) {
+      return new NetworkError(`Network error ${action}: ${error.message}`);
+    } else {
+      return new SupabaseError(`Error ${action}: ${(error as Error).message}`);
     }
   }
   
@@ -5,26 +5,61 @@
 import { contextBridge, ipcRenderer } from 'electron';
 import { 
   TODO_CHANNELS, 
+  LIST_CHANNELS,
+  TAG_CHANNELS,
   SYNC_CHANNELS, 
+  CONFLICT_CHANNELS,
   EVENTS 
 } from '../main/ipc/channels';
 
 // Type definitions for the exposed API
 interface TodoAPI {
-  getTodos: () => Promise<any[]>;
-  addTodo: (title: string) => Promise<any>;
+  getTodos: (filter?: Record<string, unknown>) => Promise<any[]>;
+  refreshTodos: (filter?: Record<string, unknown>) => Promise<any[]>;
+  addTodo: (title: string, details?: Record<string, unknown>) => Promise<any>;
   toggleTodo: (id: string, completed: boolean) => Promise<boolean>;
+  updateTodo: (id: string, patch: Record<string, unknown>) => Promise<any>;
+  moveTodo: (id: string, placement: Record<string, unknown>) => Promise<any>;
   deleteTodo: (id: string) => Promise<boolean>;
+  getTrash: () => Promise<any[]>;
+  restoreTodo: (id: string) => Promise<boolean>;
+  undo: () => Promise<boolean>;
+  redo: () => Promise<boolean>;
+}
+
+interface ListAPI {
+  getLists: () => Promise<any[]>;
+  addList: (name: string, details?: Record<string, unknown>) => Promise<any>;
+  updateList: (id: string, patch: Record<string, unknown>) => Promise<any>;
+  deleteList: (id: string) => Promise<boolean>;
+}
+
+interface TagAPI {
+  getTags: () => Promise<any[]>;
+  assignTag: (todoId: string, name: string) => Promise<any>;
+  unassignTag: (todoId: string, tagId: string) => Promise<boolean>;
 }
 
 interface SyncAPI {
   getSyncStatus: () => Promise<string>;
   forceSync: () => Promise<any>;
+  getDeadLetters: () => Promise<any[]>;
+  retryDeadLetter: (id: number) => Promise<boolean>;
+  discardDeadLetter: (id: number) => Promise<boolean>;
+}
+
+interface ConflictAPI {
+  getConflicts: () => Promise<any[]>;
+  resolveConflict: (id: number, resolution: string, values?: Record<string, unknown>) => Promise<boolean>;
 }
 
 interface EventsAPI {
   onSyncStatusChange: (callback: (status: string) => void) => () => void;
   onTodosUpdated: (callback: () => void) => () => void;
+  onListsUpdated: (callback: () => void) => () => void;
+  onTagsUpdated: (callback: () => void) => () => void;
+  onDeadLettersUpdated: (callback: () => void) => () => void;
+  onConflictsUpdated: (callback: () => void) => () => void;
   onAppError: (callback: (error: any) => void) => () => void;
 }
 
@@ -32,14 +67,40 @@ interface EventsAPI {
 // the ipcRenderer without exposing the entire object
 contextBridge.exposeInMainWorld('electronAPI', {
   // Todo operations
-  getTodos: () => ipcRenderer.invoke(TODO_CHANNELS.GET_ALL),
-  addTodo: (title: string) => ipcRenderer.invoke(TODO_CHANNELS.ADD, title),
+  getTodos: (filter?: Record<string, unknown>) => ipcRenderer.invoke(TODO_CHANNELS.GET_ALL, filter),
+  refreshTodos: (filter?: Record<string, unknown>) => ipcRenderer.invoke(TODO_CHANNELS.REFRESH, filter),
+  addTodo: (title: string, details?: Record<string, unknown>) => ipcRenderer.invoke(TODO_CHANNELS.ADD, title, details),
   toggleTodo: (id: string, completed: boolean) => ipcRenderer.invoke(TODO_CHANNELS.TOGGLE, id, completed),
+  updateTodo: (id: string, patch: Record<string, unknown>) => ipcRenderer.invoke(TODO_CHANNELS.UPDATE, id, patch),
+  moveTodo: (id: string, placement: Record<string, unknown>) => ipcRenderer.invoke(TODO_CHANNELS.MOVE, id, placement),
   deleteTodo: (id: string) => ipcRenderer.invoke(TODO_CHANNELS.DELETE, id),
+  getTrash: () => ipcRenderer.invoke(TODO_CHANNELS.GET_TRASH),
+  restoreTodo: (id: string) => ipcRenderer.invoke(TODO_CHANNELS.RESTORE, id),
+  undo: () => ipcRenderer.invoke(TODO_CHANNELS.UNDO),
+  redo: () => ipcRenderer.invoke(TODO_CHANNELS.REDO),
+  
+  // List operations
+  getLists: () => ipcRenderer.invoke(LIST_CHANNELS.GET_ALL),
+  addList: (name: string, details?: Record<string, unknown>) => ipcRenderer.invoke(LIST_CHANNELS.ADD, name, details),
+  updateList: (id: string, patch: Record<string, unknown>) => ipcRenderer.invoke(LIST_CHANNELS.UPDATE, id, patch),
+  deleteList: (id: string) => ipcRenderer.invoke(LIST_CHANNELS.DELETE, id),
+  
+  // Tag operations
+  getTags: () => ipcRenderer.invoke(TAG_CHANNELS.GET_ALL),
+  assignTag: (todoId: string, name: string) => ipcRenderer.invoke(TAG_CHANNELS.ASSIGN, todoId, name),
+  unassignTag: (todoId: string, tagId: string) => ipcRenderer.invoke(TAG_CHANNELS.UNASSIGN, todoId, tagId),
   
   // Sync operations
   getSyncStatus: () => ipcRenderer.invoke(SYNC_CHANNELS.GET_STATUS),
   forceSync: () => ipcRenderer.invoke(SYNC_CHANNELS.FORCE_SYNC),
+  getDeadLetters: () => ipcRenderer.invoke(SYNC_CHANNELS.GET_DEAD_LETTERS),
+  retryDeadLetter: (id: number) => ipcRenderer.invoke(SYNC_CHANNELS.RETRY_DEAD_LETTER, id),
+  discardDeadLetter: (id: number) => ipcRenderer.invoke(SYNC_CHANNELS.DISCARD_DEAD_LETTER, id),
+  
+  // Conflict inbox
+  getConflicts: () => ipcRenderer.invoke(CONFLICT_CHANNELS.GET_ALL),
+  resolveConflict: (id: number, resolution: string, values?: Record<string, unknown>) =>
+    ipcRenderer.invoke(CONFLICT_CHANNELS.RESOLVE, id, resolution, values),
   
   // Event listeners
   onSyncStatusChange: (callback: (status: string) => void) => {
@@ -56,10 +117,38 @@ contextBridge.exposeInMainWorld('electronAPI', {
     };
   },
   
+  onListsUpdated: (callback: () => void) => {
+    ipcRenderer.on(EVENTS.LISTS_UPDATED, () => callback());
+    return () => {
+      ipcRenderer.removeAllListeners(EVENTS.LISTS_UPDATED);
+    };
+  },
+  
+  onTagsUpdated: (callback: () => void) => {
+    ipcRenderer.on(EVENTS.TAGS_UPDATED, () => callback());
+    return () => {
+      ipcRenderer.removeAllListeners(EVENTS.TAGS_UPDATED);
+    };
+  },
+  
+  onDeadLettersUpdated: (callback: () => void) => {
+    ipcRenderer.on(EVENTS.DEAD_LETTERS_UPDATED, () => callback());
+    return () => {
+      ipcRenderer.removeAllListeners(EVENTS.DEAD_LETTERS_UPDATED);
+    };
+  },
+  
+  onConflictsUpdated: (callback: () => void) => {
+    ipcRenderer.on(EVENTS.CONFLICTS_UPDATED, () => callback());
+    return () => {
+      ipcRenderer.removeAllListeners(EVENTS.CONFLICTS_UPDATED);
+    };
+  },
+  
   onAppError: (callback: (error: any) => void) => {
     ipcRenderer.on(EVENTS.APP_ERROR, (_event, error) => callback(error));
     return () => {
       ipcRenderer.removeAllListeners(EVENTS.APP_ERROR);
     };
   }
-} as TodoAPI & SyncAPI & EventsAPI);
\ No newline at end of file
+} as TodoAPI & ListAPI & TagAPI & SyncAPI & ConflictAPI & EventsAPI);
\ No newline at end of file
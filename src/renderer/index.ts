@@ -1,17 +1,44 @@
 // Access the exposed API from the preload script
-import { Todo } from '../@types/todo';
+import { Todo, TodoPatch, TodoDetails, TodoFilter, TodoPlacement, TodoPriority, TodoStatus, TodoSyncState } from '../@types/todo';
+import { TodoList, ListPatch } from '../@types/list';
+import { Tag, TagSummary } from '../@types/tag';
+import { DeadLetter } from '../@types/outbox';
+import { ConflictResolution, SyncConflict } from '../@types/conflict';
 
 declare global {
   interface Window {
     electronAPI: {
-      getTodos: () => Promise<Todo[]>;
-      addTodo: (title: string) => Promise<Todo | null>;
+      getTodos: (filter?: TodoFilter) => Promise<Todo[]>;
+      refreshTodos: (filter?: TodoFilter) => Promise<Todo[]>;
+      addTodo: (title: string, details?: TodoDetails) => Promise<Todo | null>;
       toggleTodo: (id: string, completed: boolean) => Promise<boolean>;
+      updateTodo: (id: string, patch: TodoPatch) => Promise<Todo | null>;
+      moveTodo: (id: string, placement: TodoPlacement) => Promise<Todo | null>;
       deleteTodo: (id: string) => Promise<boolean>;
+      getTrash: () => Promise<Todo[]>;
+      restoreTodo: (id: string) => Promise<boolean>;
+      undo: () => Promise<boolean>;
+      redo: () => Promise<boolean>;
+      getLists: () => Promise<TodoList[]>;
+      addList: (name: string, details?: ListPatch) => Promise<TodoList | null>;
+      updateList: (id: string, patch: ListPatch) => Promise<TodoList | null>;
+      deleteList: (id: string) => Promise<boolean>;
+      getTags: () => Promise<TagSummary[]>;
+      assignTag: (todoId: string, name: string) => Promise<Tag | null>;
+      unassignTag: (todoId: string, tagId: string) => Promise<boolean>;
       getSyncStatus: () => Promise<SyncStatus>;
       forceSync: () => Promise<any>;
+      getDeadLetters: () => Promise<DeadLetter[]>;
+      retryDeadLetter: (id: number) => Promise<boolean>;
+      discardDeadLetter: (id: number) => Promise<boolean>;
+      getConflicts: () => Promise<SyncConflict[]>;
+      resolveConflict: (id: number, resolution: ConflictResolution, values?: Record<string, unknown>) => Promise<boolean>;
       onSyncStatusChange: (callback: (status: SyncStatus) => void) => () => void;
       onTodosUpdated: (callback: () => void) => () => void;
+      onListsUpdated: (callback: () => void) => () => void;
+      onTagsUpdated: (callback: () => void) => () => void;
+      onDeadLettersUpdated: (callback: () => void) => () => void;
+      onConflictsUpdated: (callback: () => void) => () => void;
     }
   }
 }
@@ -21,19 +48,103 @@ type SyncStatus = 'offline' | 'online' | 'syncing';
 
 // DOM Elements
 const newTodoInput = document.getElementById('new-todo') as HTMLInputElement;
+const newTodoDueInput = document.getElementById('new-todo-due') as HTMLInputElement;
+const newTodoReminderSelect = document.getElementById('new-todo-reminder') as HTMLSelectElement;
 const addButton = document.getElementById('add-button') as HTMLButtonElement;
 const todoList = document.getElementById('todo-list') as HTMLUListElement;
+const boardElement = document.getElementById('board') as HTMLDivElement;
+const boardButton = document.getElementById('board-button') as HTMLButtonElement;
+const listBar = document.getElementById('list-bar') as HTMLDivElement;
+const tagBar = document.getElementById('tag-bar') as HTMLDivElement;
 const syncStatusElement = document.getElementById('sync-status') as HTMLDivElement;
 const syncButton = document.getElementById('sync-button') as HTMLButtonElement;
+const deadLettersSection = document.getElementById('dead-letters') as HTMLDivElement;
+const deadLetterList = document.getElementById('dead-letter-list') as HTMLUListElement;
+const trashSection = document.getElementById('trash') as HTMLDivElement;
+const trashList = document.getElementById('trash-list') as HTMLUListElement;
+const trashButton = document.getElementById('trash-button') as HTMLButtonElement;
+const addTodoSection = document.querySelector('.add-todo') as HTMLDivElement;
+const conflictsSection = document.getElementById('conflicts') as HTMLDivElement;
+const conflictList = document.getElementById('conflict-list') as HTMLUListElement;
 
 // Current sync status
 let currentSyncStatus: SyncStatus = 'offline';
 
+// Whether the trash is shown instead of the todo list
+let showingTrash = false;
+
+// Storage key of the view of the todos, the list or the board, kept across restarts
+const VIEW_KEY = 'todoView';
+let showingBoard = localStorage.getItem(VIEW_KEY) === 'board';
+
+// Columns of the board, one per status, in workflow order
+const STATUS_COLUMNS: { label: string; status: TodoStatus }[] = [
+  { label: 'Backlog', status: 'backlog' },
+  { label: 'To do', status: 'todo' },
+  { label: 'In progress', status: 'in_progress' },
+  { label: 'Done', status: 'done' }
+];
+
+// Priorities offered, from none to urgent
+const PRIORITY_OPTIONS: { label: string; priority: TodoPriority | null }[] = [
+  { label: 'No priority', priority: null },
+  { label: 'Low', priority: 'low' },
+  { label: 'Medium', priority: 'medium' },
+  { label: 'High', priority: 'high' },
+  { label: 'Urgent', priority: 'urgent' }
+];
+
+// Storage key of the list shown, kept across restarts
+const CURRENT_LIST_KEY = 'currentListId';
+
+// Lists, in their sort order, and the one shown: undefined for all todos, null for the inbox
+let lists: TodoList[] = [];
+let currentListId: string | null | undefined = readCurrentList();
+
+// Storage key of the todos whose subtasks are hidden
+const COLLAPSED_TODOS_KEY = 'collapsedTodos';
+const collapsedTodos = new Set<string>(readCollapsedTodos());
+
+// Todos shown, to name the parent of a conflicting todo and find the neighbours of a drop
+let shownTodos: Todo[] = [];
+
+// Todo being dragged to another place
+let draggedTodoId: string | null = null;
+
+// Tags in use, and the one todos are filtered by
+let tagSummaries: TagSummary[] = [];
+let currentTag: string | undefined;
+
+// Reminder offsets offered, in minutes before the due date
+const REMINDER_OPTIONS: { label: string; minutes: number | null }[] = [
+  { label: 'No reminder', minutes: null },
+  { label: 'At due time', minutes: 0 },
+  { label: '15 minutes before', minutes: 15 },
+  { label: '1 hour before', minutes: 60 },
+  { label: '1 day before', minutes: 24 * 60 }
+];
+
+// Todos due within this time (ms) are shown as due soon
+const DUE_SOON_WINDOW = 24 * 60 * 60 * 1000;
+
+// Todo being edited (title or due date); reloads wait until the edit is done
+let editingTodoId: string | null = null;
+let reloadAfterEdit = false;
+
 // Load todos when the app starts
 document.addEventListener('DOMContentLoaded', () => {
+  setupLists();
+  setupTags();
   loadTodos();
   setupSyncStatus();
   setupTodosUpdatedListener();
+  setupDeadLetters();
+  setupConflicts();
+  fillReminderOptions(newTodoReminderSelect, null);
+  showView();
+  
+  // Overdue and due soon states change with time
+  setInterval(loadTodos, 60 * 1000);
 });
 
 // Add event listeners
@@ -48,6 +159,31 @@ if (syncButton) {
   syncButton.addEventListener('click', forceSync);
 }
 
+if (trashButton) {
+  trashButton.addEventListener('click', toggleTrash);
+}
+
+if (boardButton) {
+  boardButton.addEventListener('click', toggleBoard);
+}
+
+// Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS) undo and redo todo mutations;
+// text fields keep their own undo
+document.addEventListener('keydown', (e) => {
+  if (!(e.ctrlKey || e.metaKey) || e.altKey || e.key.toLowerCase() !== 'z') return;
+  
+  const target = e.target as HTMLElement;
+  if (target.tagName === 'INPUT' && (target as HTMLInputElement).type === 'text') return;
+  if (target.tagName === 'TEXTAREA' || target.isContentEditable) return;
+  
+  e.preventDefault();
+  if (e.shiftKey) {
+    redo();
+  } else {
+    undo();
+  }
+});
+
 // Setup sync status display and listener
 async function setupSyncStatus() {
   // Get initial sync status
@@ -66,9 +202,42 @@ function setupTodosUpdatedListener() {
   window.electronAPI.onTodosUpdated(() => {
     console.log('Received todos-updated signal, reloading list.');
     loadTodos();
+    if (showingTrash) {
+      loadTrash();
+    }
+  });
+}
+
+// Setup the list bar, reloaded when lists change on another device
+function setupLists() {
+  loadLists();
+  window.electronAPI.onListsUpdated(async () => {
+    await loadLists();
+    await reloadViews();
   });
 }
 
+// Setup the tag filter, reloaded when tags change on another device
+function setupTags() {
+  loadTags();
+  window.electronAPI.onTagsUpdated(async () => {
+    await loadTags();
+    await reloadViews();
+  });
+}
+
+// Setup the list of changes that could not be synced
+function setupDeadLetters() {
+  loadDeadLetters();
+  window.electronAPI.onDeadLettersUpdated(() => loadDeadLetters());
+}
+
+// Setup the inbox of changes that clashed with local edits
+function setupConflicts() {
+  loadConflicts();
+  window.electronAPI.onConflictsUpdated(() => loadConflicts());
+}
+
 // Update sync status display
 function updateSyncStatusDisplay(status: SyncStatus) {
   if (!syncStatusElement) return;
@@ -103,9 +272,22 @@ async function forceSync() {
 
 // Load todos from the database
 async function loadTodos() {
+  if (editingTodoId) {
+    reloadAfterEdit = true;
+    return;
+  }
+  
   try {
-    const todos = await window.electronAPI.getTodos();
-    renderTodos(todos);
+    const filter: TodoFilter = {};
+    if (currentListId !== undefined) filter.list_id = currentListId;
+    if (currentTag !== undefined) filter.tag = currentTag;
+    
+    const todos = await window.electronAPI.getTodos(filter);
+    if (showingBoard) {
+      renderBoard(todos);
+    } else {
+      renderTodos(todos);
+    }
   } catch (error) {
     console.error('Failed to load todos:', error);
   }
@@ -116,10 +298,15 @@ async function addTodo() {
   const title = newTodoInput.value.trim();
   if (!title) return;
   
+  // Todos added to all todos go to the inbox
+  const details: TodoDetails = { ...readSchedule(newTodoDueInput, newTodoReminderSelect), list_id: currentListId ?? null };
+  
   try {
-    const newTodo = await window.electronAPI.addTodo(title);
+    const newTodo = await window.electronAPI.addTodo(title, details);
     if (newTodo) {
       newTodoInput.value = '';
+      newTodoDueInput.value = '';
+      newTodoReminderSelect.value = '';
       await loadTodos(); // Reload all todos to get the updated list
     }
   } catch (error) {
@@ -127,6 +314,372 @@ async function addTodo() {
   }
 }
 
+// Read the list shown from the last session
+function readCurrentList(): string | null | undefined {
+  const stored = localStorage.getItem(CURRENT_LIST_KEY);
+  if (stored === null || stored === 'all') return undefined;
+  return stored === 'inbox' ? null : stored;
+}
+
+// Show the todos of a list
+async function selectList(listId: string | null | undefined) {
+  currentListId = listId;
+  localStorage.setItem(CURRENT_LIST_KEY, listId === undefined ? 'all' : listId ?? 'inbox');
+  
+  if (showingTrash) {
+    toggleTrash();
+  }
+  renderListBar();
+  await loadTodos();
+}
+
+// Load the lists
+async function loadLists() {
+  try {
+    lists = await window.electronAPI.getLists();
+    
+    // The list shown may have been deleted, on this device or another one
+    if (currentListId && !lists.some(list => list.id === currentListId)) {
+      await selectList(undefined);
+      return;
+    }
+    
+    renderListBar();
+  } catch (error) {
+    console.error('Failed to load lists:', error);
+  }
+}
+
+// Strip the prefix Electron adds to the message of errors thrown in the main process
+function getErrorMessage(error: unknown): string {
+  return (error as Error).message.replace(/^Error invoking remote method '[^']+': (\w+Error: )?/, '');
+}
+
+// Add a new list and show it
+// Returns the error message if the name was rejected
+async function addList(name: string): Promise<string | null> {
+  try {
+    const list = await window.electronAPI.addList(name);
+    if (list) {
+      await loadLists();
+      await selectList(list.id);
+    }
+    return null;
+  } catch (error) {
+    console.error('Failed to add list:', error);
+    return getErrorMessage(error);
+  }
+}
+
+// Change fields of a list
+// Returns the error message if the change was rejected
+async function updateList(id: string, patch: ListPatch): Promise<string | null> {
+  try {
+    await window.electronAPI.updateList(id, patch);
+    await loadLists();
+    return null;
+  } catch (error) {
+    console.error('Failed to update list:', error);
+    return getErrorMessage(error);
+  }
+}
+
+// Delete a list, its todos move to the trash
+async function deleteList(list: TodoList) {
+  if (!confirm(`Delete the list "${list.name}"? Its todos will be moved to the trash.`)) return;
+  
+  try {
+    const success = await window.electronAPI.deleteList(list.id);
+    if (success) {
+      await loadLists();
+      await reloadViews();
+    }
+  } catch (error) {
+    console.error('Failed to delete list:', error);
+  }
+}
+
+// Replace a list bar element with an input for a list name
+// Enter or leaving the input saves, Escape cancels; save returns an error message to keep editing
+function editListName(element: HTMLElement, name: string, save: (name: string) => Promise<string | null>) {
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'list-name-edit';
+  input.value = name;
+  input.placeholder = 'List name';
+  
+  let done = false;
+  const finish = async (commit: boolean) => {
+    if (done) return;
+    
+    const value = input.value.trim();
+    if (commit && value && value !== name) {
+      done = true;
+      const error = await save(value);
+      if (error) {
+        done = false;
+        input.classList.add('invalid');
+        input.title = error;
+        input.focus();
+        return;
+      }
+    }
+    
+    done = true;
+    renderListBar();
+  };
+  
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') {
+      finish(true);
+    } else if (e.key === 'Escape') {
+      finish(false);
+    }
+  });
+  input.addEventListener('input', () => {
+    input.classList.remove('invalid');
+    input.title = '';
+  });
+  input.addEventListener('blur', () => finish(true));
+  
+  element.replaceWith(input);
+  input.focus();
+  input.select();
+}
+
+// Create a list bar tab
+function createListTab(label: string, listId: string | null | undefined, color?: string | null): HTMLButtonElement {
+  const tab = document.createElement('button');
+  tab.className = `list-tab ${listId === currentListId ? 'active' : ''}`;
+  
+  if (color !== undefined) {
+    const dot = document.createElement('span');
+    dot.className = 'list-dot';
+    if (color) dot.style.background = color;
+    tab.appendChild(dot);
+  }
+  
+  tab.appendChild(document.createTextNode(label));
+  tab.addEventListener('click', () => selectList(listId));
+  return tab;
+}
+
+// Render the list bar: all todos, the inbox, the lists and the controls of the list shown
+function renderListBar() {
+  if (!listBar) return;
+  
+  listBar.innerHTML = '';
+  listBar.appendChild(createListTab('All', undefined));
+  listBar.appendChild(createListTab('Inbox', null));
+  
+  lists.forEach(list => {
+    const tab = createListTab(list.name, list.id, list.color);
+    tab.title = 'Double-click to rename';
+    tab.addEventListener('dblclick', () => editListName(tab, list.name, name => updateList(list.id, { name })));
+    listBar.appendChild(tab);
+  });
+  
+  const newListBtn = document.createElement('button');
+  newListBtn.className = 'list-tab new-list';
+  newListBtn.textContent = '+ New list';
+  newListBtn.addEventListener('click', () => editListName(newListBtn, '', addList));
+  listBar.appendChild(newListBtn);
+  
+  const current = lists.find(list => list.id === currentListId);
+  if (current) {
+    const controls = document.createElement('span');
+    controls.className = 'list-controls';
+    
+    const colorInput = document.createElement('input');
+    colorInput.type = 'color';
+    colorInput.title = 'List color';
+    colorInput.value = current.color ?? '#4caf50';
+    colorInput.addEventListener('change', () => updateList(current.id, { color: colorInput.value }));
+    
+    const deleteBtn = document.createElement('button');
+    deleteBtn.className = 'delete-button';
+    deleteBtn.textContent = 'Delete list';
+    deleteBtn.addEventListener('click', () => deleteList(current));
+    
+    controls.appendChild(colorInput);
+    controls.appendChild(deleteBtn);
+    listBar.appendChild(controls);
+  }
+}
+
+// Create the tag of the list a todo belongs to, shown when all todos are
+function createListTag(todo: Todo): HTMLSpanElement | null {
+  const list = lists.find(candidate => candidate.id === todo.list_id);
+  if (currentListId !== undefined || !list) return null;
+  
+  const tag = document.createElement('span');
+  tag.className = 'todo-list-tag';
+  tag.textContent = list.name;
+  if (list.color) tag.style.borderColor = list.color;
+  return tag;
+}
+
+// Filter todos by a tag, or stop filtering
+async function selectTag(name: string | undefined) {
+  currentTag = name;
+  renderTagBar();
+  await loadTodos();
+}
+
+// Load the tags in use
+async function loadTags() {
+  try {
+    tagSummaries = await window.electronAPI.getTags();
+    
+    // The tag filtered by may no longer be on any todo
+    const current = currentTag?.toLowerCase();
+    if (current !== undefined && !tagSummaries.some(tag => tag.name.toLowerCase() === current)) {
+      await selectTag(undefined);
+      return;
+    }
+    
+    renderTagBar();
+  } catch (error) {
+    console.error('Failed to load tags:', error);
+  }
+}
+
+// Render the tag filter, hidden while no todo is tagged
+function renderTagBar() {
+  if (!tagBar) return;
+  
+  tagBar.innerHTML = '';
+  tagBar.hidden = tagSummaries.length === 0;
+  
+  const current = currentTag?.toLowerCase();
+  tagSummaries.forEach(tag => {
+    const active = tag.name.toLowerCase() === current;
+    const button = document.createElement('button');
+    button.className = `tag-filter ${active ? 'active' : ''}`;
+    button.textContent = `#${tag.name} (${tag.todo_count})`;
+    button.title = active ? 'Show all tags' : `Show todos tagged ${tag.name}`;
+    button.addEventListener('click', () => selectTag(active ? undefined : tag.name));
+    tagBar.appendChild(button);
+  });
+}
+
+// Tag a todo
+// Returns the error message if the name was rejected
+async function assignTag(todoId: string, name: string): Promise<string | null> {
+  try {
+    await window.electronAPI.assignTag(todoId, name);
+    await loadTags();
+    return null;
+  } catch (error) {
+    console.error('Failed to tag todo:', error);
+    return getErrorMessage(error);
+  }
+}
+
+// Remove a tag from a todo
+async function unassignTag(todoId: string, tagId: string) {
+  try {
+    const success = await window.electronAPI.unassignTag(todoId, tagId);
+    if (success) {
+      await loadTags();
+      await loadTodos();
+    }
+  } catch (error) {
+    console.error('Failed to remove tag:', error);
+  }
+}
+
+// Replace a button of a todo with an input for a new tag or subtask
+// Enter or leaving the input saves, Escape cancels; save returns an error message to keep editing
+function startInlineInput(
+  todo: Todo,
+  button: HTMLButtonElement,
+  className: string,
+  placeholder: string,
+  save: (value: string) => Promise<string | null>
+) {
+  if (editingTodoId) return;
+  editingTodoId = todo.id;
+  
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = className;
+  input.placeholder = placeholder;
+  
+  let done = false;
+  let saving = false;
+  const finish = async (commit: boolean) => {
+    if (done || saving) return;
+    
+    const value = input.value.trim();
+    if (commit && value) {
+      saving = true;
+      const error = await save(value);
+      saving = false;
+      if (error) {
+        input.classList.add('invalid');
+        input.title = error;
+        input.focus();
+        return;
+      }
+    }
+    
+    done = true;
+    editingTodoId = null;
+    input.replaceWith(button);
+    
+    if (reloadAfterEdit || (commit && value)) {
+      reloadAfterEdit = false;
+      await loadTodos();
+    }
+  };
+  
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') {
+      finish(true);
+    } else if (e.key === 'Escape') {
+      finish(false);
+    }
+  });
+  input.addEventListener('input', () => {
+    input.classList.remove('invalid');
+    input.title = '';
+  });
+  input.addEventListener('blur', () => finish(true));
+  
+  button.replaceWith(input);
+  input.focus();
+}
+
+// Create the tags of a todo, each removable, and the button to add one
+function createTodoTags(todo: Todo): HTMLSpanElement {
+  const container = document.createElement('span');
+  container.className = 'todo-tags';
+  
+  (todo.tags ?? []).forEach(tag => {
+    const chip = document.createElement('span');
+    chip.className = 'todo-tag';
+    chip.textContent = `#${tag.name}`;
+    
+    const removeBtn = document.createElement('button');
+    removeBtn.className = 'todo-tag-remove';
+    removeBtn.textContent = '×';
+    removeBtn.title = `Remove tag ${tag.name}`;
+    removeBtn.addEventListener('click', () => unassignTag(todo.id, tag.id));
+    
+    chip.appendChild(removeBtn);
+    container.appendChild(chip);
+  });
+  
+  const addBtn = document.createElement('button');
+  addBtn.className = 'todo-tag-add';
+  addBtn.textContent = '+ Tag';
+  addBtn.addEventListener('click', () => startInlineInput(todo, addBtn, 'todo-tag-edit', 'Tag', name => assignTag(todo.id, name)));
+  container.appendChild(addBtn);
+  
+  return container;
+}
+
 // Toggle todo completion status
 async function toggleTodo(id: string, completed: boolean) {
   try {
@@ -139,6 +692,184 @@ async function toggleTodo(id: string, completed: boolean) {
   }
 }
 
+// Save the edited title of a todo
+// Returns the error message if the title was rejected
+async function updateTitle(id: string, title: string): Promise<string | null> {
+  try {
+    await window.electronAPI.updateTodo(id, { title });
+    return null;
+  } catch (error) {
+    console.error('Failed to update todo:', error);
+    return getErrorMessage(error);
+  }
+}
+
+// Replace the title of a todo with an input to edit it
+// Enter or leaving the input saves, Escape cancels
+function startEditing(todo: Todo, span: HTMLSpanElement) {
+  if (editingTodoId) return;
+  editingTodoId = todo.id;
+  
+  const input = document.createElement('input');
+  input.type = 'text';
+  input.className = 'todo-edit';
+  input.value = todo.title;
+  
+  let done = false;
+  let saving = false;
+  const finish = async (save: boolean) => {
+    if (done || saving) return;
+    
+    const title = input.value.trim();
+    if (save && title !== todo.title) {
+      saving = true;
+      const error = await updateTitle(todo.id, title);
+      saving = false;
+      if (error) {
+        input.classList.add('invalid');
+        input.title = error;
+        input.focus();
+        return;
+      }
+    }
+    
+    done = true;
+    editingTodoId = null;
+    input.replaceWith(span);
+    
+    if (reloadAfterEdit || save) {
+      reloadAfterEdit = false;
+      await loadTodos();
+    }
+  };
+  
+  input.addEventListener('keydown', (e) => {
+    if (e.key === 'Enter') {
+      finish(true);
+    } else if (e.key === 'Escape') {
+      finish(false);
+    }
+  });
+  input.addEventListener('input', () => {
+    input.classList.remove('invalid');
+    input.title = '';
+  });
+  input.addEventListener('blur', () => finish(true));
+  
+  span.replaceWith(input);
+  input.focus();
+  input.select();
+}
+
+// Fill a select with the reminder options
+function fillReminderOptions(select: HTMLSelectElement, selected: number | null) {
+  select.innerHTML = '';
+  REMINDER_OPTIONS.forEach(option => {
+    const element = document.createElement('option');
+    element.value = option.minutes === null ? '' : String(option.minutes);
+    element.textContent = option.label;
+    element.selected = option.minutes === selected;
+    select.appendChild(element);
+  });
+}
+
+// Read a due date input and reminder select
+function readSchedule(dueInput: HTMLInputElement, reminderSelect: HTMLSelectElement): TodoDetails {
+  // datetime-local values are in local time, which Date reads them as
+  const due_at = dueInput.value ? new Date(dueInput.value).toISOString() : null;
+  const remind_before = due_at && reminderSelect.value !== '' ? Number(reminderSelect.value) : null;
+  return { due_at, remind_before };
+}
+
+// Format an ISO timestamp as a datetime-local input value
+function toLocalInputValue(iso: string): string {
+  const date = new Date(iso);
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+}
+
+// Create the due date label of a todo, or a button to set one
+function createDueLabel(todo: Todo): HTMLButtonElement {
+  const label = document.createElement('button');
+  
+  if (!todo.due_at) {
+    label.className = 'todo-due none';
+    label.textContent = '+ Due';
+    return label;
+  }
+  
+  const dueAt = new Date(todo.due_at);
+  const remaining = dueAt.getTime() - Date.now();
+  let state = 'upcoming';
+  if (!todo.completed && remaining <= 0) {
+    state = 'overdue';
+  } else if (!todo.completed && remaining <= DUE_SOON_WINDOW) {
+    state = 'due-soon';
+  }
+  
+  label.className = `todo-due ${state}`;
+  label.textContent = `${state === 'overdue' ? 'Overdue' : 'Due'} ${dueAt.toLocaleString([], { dateStyle: 'short', timeStyle: 'short' })}`;
+  if (todo.remind_before !== null && todo.remind_before !== undefined) {
+    label.textContent += ' 🔔';
+    const option = REMINDER_OPTIONS.find(o => o.minutes === todo.remind_before);
+    label.title = option ? `Reminder ${option.label.toLowerCase()}` : `Reminder ${todo.remind_before} minutes before`;
+  }
+  return label;
+}
+
+// Replace the due date label of a todo with inputs to change it
+function startEditingDue(todo: Todo, label: HTMLButtonElement) {
+  if (editingTodoId) return;
+  editingTodoId = todo.id;
+  
+  const editor = document.createElement('div');
+  editor.className = 'todo-due-editor';
+  
+  const dueInput = document.createElement('input');
+  dueInput.type = 'datetime-local';
+  dueInput.value = todo.due_at ? toLocalInputValue(todo.due_at) : '';
+  
+  const reminderSelect = document.createElement('select');
+  fillReminderOptions(reminderSelect, todo.remind_before ?? null);
+  
+  const saveBtn = document.createElement('button');
+  saveBtn.textContent = 'Save';
+  
+  const cancelBtn = document.createElement('button');
+  cancelBtn.textContent = 'Cancel';
+  
+  const finish = async (schedule: TodoDetails | null) => {
+    if (schedule) {
+      try {
+        await window.electronAPI.updateTodo(todo.id, schedule);
+      } catch (error) {
+        console.error('Failed to update due date:', error);
+        editor.classList.add('invalid');
+        return;
+      }
+    }
+    
+    editingTodoId = null;
+    editor.replaceWith(label);
+    
+    if (reloadAfterEdit || schedule) {
+      reloadAfterEdit = false;
+      await loadTodos();
+    }
+  };
+  
+  saveBtn.addEventListener('click', () => finish(readSchedule(dueInput, reminderSelect)));
+  cancelBtn.addEventListener('click', () => finish(null));
+  
+  editor.appendChild(dueInput);
+  editor.appendChild(reminderSelect);
+  editor.appendChild(saveBtn);
+  editor.appendChild(cancelBtn);
+  
+  label.replaceWith(editor);
+  dueInput.focus();
+}
+
 // Delete a todo
 async function deleteTodo(id: string) {
   try {
@@ -151,36 +882,698 @@ async function deleteTodo(id: string) {
   }
 }
 
-// Render todos to the DOM
-function renderTodos(todos: Todo[]) {
-  todoList.innerHTML = '';
+// Undo the latest todo mutation
+async function undo() {
+  try {
+    const success = await window.electronAPI.undo();
+    if (success) {
+      await reloadViews();
+    }
+  } catch (error) {
+    console.error('Failed to undo:', error);
+  }
+}
+
+// Redo the latest undone todo mutation
+async function redo() {
+  try {
+    const success = await window.electronAPI.redo();
+    if (success) {
+      await reloadViews();
+    }
+  } catch (error) {
+    console.error('Failed to redo:', error);
+  }
+}
+
+// Reload the todo list, and the trash if it is shown
+async function reloadViews() {
+  await loadTodos();
+  if (showingTrash) {
+    await loadTrash();
+  }
+}
+
+// Switch between the todo list and the trash
+function toggleTrash() {
+  showingTrash = !showingTrash;
+  showView();
+  
+  if (showingTrash) {
+    loadTrash();
+  }
+}
+
+// Switch between the todo list and the board
+function toggleBoard() {
+  showingBoard = !showingBoard;
+  localStorage.setItem(VIEW_KEY, showingBoard ? 'board' : 'list');
+  showView();
+  loadTodos();
+}
+
+// Show the view picked: the trash, or the todos as a list or a board
+function showView() {
+  todoList.hidden = showingTrash || showingBoard;
+  boardElement.hidden = showingTrash || !showingBoard;
+  if (addTodoSection) addTodoSection.hidden = showingTrash;
+  trashSection.hidden = !showingTrash;
+  trashButton.textContent = showingTrash ? 'Back to list' : 'Trash';
+  boardButton.hidden = showingTrash;
+  boardButton.textContent = showingBoard ? 'List' : 'Board';
+}
+
+// Load the todos in the trash
+async function loadTrash() {
+  try {
+    const todos = await window.electronAPI.getTrash();
+    renderTrash(todos);
+  } catch (error) {
+    console.error('Failed to load trash:', error);
+  }
+}
+
+// Restore a todo from the trash
+async function restoreTodo(id: string) {
+  try {
+    const success = await window.electronAPI.restoreTodo(id);
+    if (success) {
+      await loadTrash();
+      await loadTodos();
+    }
+  } catch (error) {
+    console.error('Failed to restore todo:', error);
+  }
+}
+
+// Render the todos in the trash
+function renderTrash(todos: Todo[]) {
+  if (!trashList) return;
+  
+  trashList.innerHTML = '';
+  
+  if (todos.length === 0) {
+    const empty = document.createElement('li');
+    empty.className = 'trash-empty';
+    empty.textContent = 'The trash is empty';
+    trashList.appendChild(empty);
+    return;
+  }
   
   todos.forEach(todo => {
     const li = document.createElement('li');
-    li.className = `todo-item ${todo.completed ? 'completed' : ''}`;
-    
-    const checkbox = document.createElement('input');
-    checkbox.type = 'checkbox';
-    checkbox.className = 'todo-checkbox';
-    checkbox.checked = Boolean(todo.completed);
-    checkbox.addEventListener('change', () => toggleTodo(todo.id, checkbox.checked));
+    li.className = 'todo-item trashed';
     
     const span = document.createElement('span');
     span.className = 'todo-text';
     span.textContent = todo.title;
+    if (todo.deleted_at) {
+      span.title = `Deleted on ${new Date(todo.deleted_at).toLocaleString()}`;
+    }
     
-    const deleteBtn = document.createElement('button');
-    deleteBtn.className = 'delete-button';
-    deleteBtn.textContent = 'Delete';
-    deleteBtn.addEventListener('click', () => deleteTodo(todo.id));
+    const badge = createSyncBadge(todo.sync_state ?? 'synced', todo.sync_error);
+    
+    const restoreBtn = document.createElement('button');
+    restoreBtn.className = 'retry-button';
+    restoreBtn.textContent = 'Restore';
+    restoreBtn.addEventListener('click', () => restoreTodo(todo.id));
     
-    li.appendChild(checkbox);
     li.appendChild(span);
-    li.appendChild(deleteBtn);
+    li.appendChild(badge);
+    li.appendChild(restoreBtn);
+    
+    trashList.appendChild(li);
+  });
+}
+
+// Load the changes that could not be synced
+async function loadDeadLetters() {
+  try {
+    const deadLetters = await window.electronAPI.getDeadLetters();
+    renderDeadLetters(deadLetters);
+  } catch (error) {
+    console.error('Failed to load dead letters:', error);
+  }
+}
+
+// Retry syncing a change
+async function retryDeadLetter(id: number) {
+  try {
+    await window.electronAPI.retryDeadLetter(id);
+    await loadDeadLetters();
+  } catch (error) {
+    console.error('Failed to retry dead letter:', error);
+  }
+}
+
+// Give up on a change
+async function discardDeadLetter(id: number) {
+  try {
+    await window.electronAPI.discardDeadLetter(id);
+    await loadDeadLetters();
+  } catch (error) {
+    console.error('Failed to discard dead letter:', error);
+  }
+}
+
+// Render the changes that could not be synced
+function renderDeadLetters(deadLetters: DeadLetter[]) {
+  if (!deadLettersSection || !deadLetterList) return;
+  
+  deadLettersSection.hidden = deadLetters.length === 0;
+  deadLetterList.innerHTML = '';
+  
+  deadLetters.forEach(deadLetter => {
+    const li = document.createElement('li');
+    li.className = 'dead-letter-item';
+    
+    const description = document.createElement('span');
+    description.className = 'dead-letter-text';
+    const name = deadLetter.data?.title ?? deadLetter.data?.name;
+    const title = name ? `"${name}"` : `${deadLetter.table} ${deadLetter.rowId}`;
+    description.textContent = `${deadLetter.type} ${title}: ${deadLetter.error}`;
+    description.title = `${deadLetter.attempts} attempt(s), last on ${new Date(deadLetter.failedAt).toLocaleString()}`;
+    
+    const retryBtn = document.createElement('button');
+    retryBtn.className = 'retry-button';
+    retryBtn.textContent = 'Retry';
+    retryBtn.addEventListener('click', () => retryDeadLetter(deadLetter.id));
+    
+    const discardBtn = document.createElement('button');
+    discardBtn.className = 'delete-button';
+    discardBtn.textContent = 'Discard';
+    discardBtn.addEventListener('click', () => discardDeadLetter(deadLetter.id));
+    
+    li.appendChild(description);
+    li.appendChild(retryBtn);
+    li.appendChild(discardBtn);
     
-    todoList.appendChild(li);
+    deadLetterList.appendChild(li);
   });
 }
 
+// Load the changes that clashed with local edits
+async function loadConflicts() {
+  try {
+    const conflicts = await window.electronAPI.getConflicts();
+    renderConflicts(conflicts);
+  } catch (error) {
+    console.error('Failed to load conflicts:', error);
+  }
+}
+
+// Settle a conflict
+async function resolveConflict(id: number, resolution: ConflictResolution, values?: Record<string, unknown>) {
+  try {
+    await window.electronAPI.resolveConflict(id, resolution, values);
+    await loadConflicts();
+    await loadTodos();
+  } catch (error) {
+    console.error('Failed to resolve conflict:', error);
+  }
+}
+
+// Format a field value of a conflict
+function formatConflictValue(column: string, value: unknown): string {
+  if (column === 'deleted_at') return value ? 'in trash' : 'not in trash';
+  if (value === undefined || value === null) return '—';
+  if (column === 'completed') return value ? 'done' : 'not done';
+  if (column === 'list_id') return lists.find(list => list.id === value)?.name ?? 'a deleted list';
+  if (column === 'status') return STATUS_COLUMNS.find(option => option.status === value)?.label ?? String(value);
+  if (column === 'priority') return PRIORITY_OPTIONS.find(option => option.priority === (value ?? null))?.label ?? String(value);
+  if (column === 'parent_id') return `under "${shownTodos.find(todo => todo.id === value)?.title ?? 'another todo'}"`;
+  return String(value);
+}
+
+// Render one conflicting field: the three versions and an editor for the merged value
+function createConflictField(conflict: SyncConflict, column: string): { element: HTMLDivElement; read: () => unknown } {
+  const field = document.createElement('div');
+  field.className = 'conflict-field';
+  
+  const label = document.createElement('span');
+  label.className = 'conflict-label';
+  label.textContent = column;
+  
+  const versions = document.createElement('span');
+  versions.className = 'conflict-versions';
+  const remote = conflict.remote === null ? 'deleted' : formatConflictValue(column, conflict.remote[column]);
+  versions.textContent = `mine: ${formatConflictValue(column, conflict.local[column])} · theirs: ${remote} · before: ${formatConflictValue(column, conflict.base[column])}`;
+  
+  field.appendChild(label);
+  field.appendChild(versions);
+  
+  if (column === 'status' || column === 'priority') {
+    const options = column === 'status'
+      ? STATUS_COLUMNS.map(({ label, status }) => ({ label, value: status }))
+      : PRIORITY_OPTIONS.map(({ label, priority }) => ({ label, value: priority }));
+    const select = document.createElement('select');
+    select.className = 'conflict-editor';
+    options.forEach(({ label, value }) => select.appendChild(new Option(label, value ?? '')));
+    select.value = String(conflict.local[column] ?? '');
+    field.appendChild(select);
+    return { element: field, read: () => select.value || null };
+  }
+  
+  const editor = document.createElement('input');
+  editor.className = 'conflict-editor';
+  if (column === 'completed') {
+    editor.type = 'checkbox';
+    editor.checked = Boolean(conflict.local[column]);
+  } else {
+    editor.type = 'text';
+    editor.value = String(conflict.local[column] ?? '');
+  }
+  field.appendChild(editor);
+  
+  return {
+    element: field,
+    read: () => editor.type === 'checkbox' ? editor.checked : editor.value
+  };
+}
+
+// Render the changes that clashed with local edits
+function renderConflicts(conflicts: SyncConflict[]) {
+  if (!conflictsSection || !conflictList) return;
+  
+  conflictsSection.hidden = conflicts.length === 0;
+  conflictList.innerHTML = '';
+  
+  conflicts.forEach(conflict => {
+    const li = document.createElement('li');
+    li.className = 'conflict-item';
+    
+    const description = document.createElement('div');
+    description.className = 'conflict-text';
+    const title = conflict.local.title ?? conflict.remote?.title ?? conflict.base.title
+      ?? conflict.local.name ?? conflict.remote?.name ?? conflict.base.name ?? conflict.rowId;
+    description.textContent = conflict.remote === null
+      ? `"${title}" was deleted on another device while you edited it`
+      : `"${title}" was changed on another device while you edited it`;
+    description.title = `Detected on ${new Date(conflict.detectedAt).toLocaleString()}`;
+    li.appendChild(description);
+    
+    const fields = conflict.columns.map(column => createConflictField(conflict, column));
+    fields.forEach(field => li.appendChild(field.element));
+    
+    const actions = document.createElement('div');
+    actions.className = 'conflict-actions';
+    
+    const localBtn = document.createElement('button');
+    localBtn.className = 'retry-button';
+    localBtn.textContent = conflict.remote === null ? 'Keep it' : 'Keep mine';
+    localBtn.addEventListener('click', () => resolveConflict(conflict.id, 'local'));
+    
+    const remoteBtn = document.createElement('button');
+    remoteBtn.className = 'delete-button';
+    remoteBtn.textContent = conflict.remote === null ? 'Delete it' : 'Take theirs';
+    remoteBtn.addEventListener('click', () => resolveConflict(conflict.id, 'remote'));
+    
+    const mergedBtn = document.createElement('button');
+    mergedBtn.className = 'retry-button';
+    mergedBtn.textContent = 'Use edited';
+    mergedBtn.addEventListener('click', () => {
+      const values: Record<string, unknown> = {};
+      conflict.columns.forEach((column, index) => {
+        values[column] = fields[index].read();
+      });
+      resolveConflict(conflict.id, 'merged', values);
+    });
+    
+    actions.appendChild(localBtn);
+    actions.appendChild(remoteBtn);
+    actions.appendChild(mergedBtn);
+    li.appendChild(actions);
+    
+    conflictList.appendChild(li);
+  });
+}
+
+// Labels of the per-todo sync badges
+const SYNC_STATE_LABELS: Record<TodoSyncState, string> = {
+  synced: 'Synced',
+  pending: 'Pending',
+  failed: 'Failed',
+  conflicted: 'Conflict'
+};
+
+// Create the sync badge of a todo, the last error shows on hover
+function createSyncBadge(state: TodoSyncState, error?: string | null): HTMLSpanElement {
+  const badge = document.createElement('span');
+  badge.className = `sync-badge ${state}`;
+  badge.textContent = SYNC_STATE_LABELS[state];
+  if (error) {
+    badge.title = error;
+  }
+  return badge;
+}
+
+// Add a subtask to a todo, and expand the todo to show it
+// Returns the error message if the title was rejected
+async function addSubtask(parent: Todo, title: string): Promise<string | null> {
+  try {
+    await window.electronAPI.addTodo(title, { parent_id: parent.id });
+    setCollapsed(parent.id, false);
+    return null;
+  } catch (error) {
+    console.error('Failed to add subtask:', error);
+    return getErrorMessage(error);
+  }
+}
+
+// Read the todos whose subtasks are hidden, kept across restarts
+function readCollapsedTodos(): string[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(COLLAPSED_TODOS_KEY) ?? '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+// Hide or show the subtasks of a todo
+function setCollapsed(id: string, collapsed: boolean) {
+  if (collapsed) {
+    collapsedTodos.add(id);
+  } else {
+    collapsedTodos.delete(id);
+  }
+  localStorage.setItem(COLLAPSED_TODOS_KEY, JSON.stringify([...collapsedTodos]));
+}
+
+// Create the button that hides or shows the subtasks of a todo, or a spacer if none are shown
+function createCollapseToggle(todo: Todo, hasSubtasks: boolean): HTMLElement {
+  if (!hasSubtasks) {
+    const spacer = document.createElement('span');
+    spacer.className = 'subtask-toggle';
+    return spacer;
+  }
+  
+  const collapsed = collapsedTodos.has(todo.id);
+  const toggle = document.createElement('button');
+  toggle.className = 'subtask-toggle';
+  toggle.textContent = collapsed ? '▸' : '▾';
+  toggle.title = collapsed ? 'Show subtasks' : 'Hide subtasks';
+  toggle.addEventListener('click', () => {
+    setCollapsed(todo.id, !collapsed);
+    loadTodos();
+  });
+  return toggle;
+}
+
+// Create the "3/5 done" count of the subtasks of a todo
+function createSubtaskRollup(todo: Todo): HTMLSpanElement | null {
+  if (!todo.subtask_count) return null;
+  
+  const rollup = document.createElement('span');
+  rollup.className = `subtask-rollup ${todo.subtask_done === todo.subtask_count ? 'all-done' : ''}`;
+  rollup.textContent = `${todo.subtask_done ?? 0}/${todo.subtask_count} done`;
+  return rollup;
+}
+
+// Move a todo to the trash, asking first if its subtasks go with it
+function confirmDeleteTodo(todo: Todo) {
+  if (todo.subtask_count && !confirm(`Move "${todo.title}" and its subtasks to the trash?`)) return;
+  deleteTodo(todo.id);
+}
+
+// Set the priority of a todo
+async function setPriority(id: string, priority: TodoPriority | null) {
+  try {
+    await window.electronAPI.updateTodo(id, { priority });
+    await loadTodos();
+  } catch (error) {
+    console.error('Failed to set priority:', error);
+  }
+}
+
+// Move a todo to another column of the board; done completes it, leaving done reopens it
+async function setStatus(id: string, status: TodoStatus) {
+  try {
+    await window.electronAPI.updateTodo(id, { status });
+    await loadTodos();
+  } catch (error) {
+    console.error('Failed to set status:', error);
+  }
+}
+
+// Create the select showing and changing the priority of a todo
+function createPrioritySelect(todo: Todo): HTMLSelectElement {
+  const select = document.createElement('select');
+  select.className = `todo-priority ${todo.priority ?? 'none'}`;
+  select.title = 'Priority';
+  PRIORITY_OPTIONS.forEach(({ label, priority }) => select.appendChild(new Option(label, priority ?? '')));
+  select.value = todo.priority ?? '';
+  select.addEventListener('change', () => setPriority(todo.id, (select.value || null) as TodoPriority | null));
+  return select;
+}
+
+// Create the label of a todo's status in the list, none for todo and done, which the
+// checkbox already tells
+function createStatusLabel(todo: Todo): HTMLSpanElement | null {
+  if (todo.status !== 'backlog' && todo.status !== 'in_progress') return null;
+  
+  const label = document.createElement('span');
+  label.className = `todo-status ${todo.status}`;
+  label.textContent = STATUS_COLUMNS.find(column => column.status === todo.status)?.label ?? todo.status;
+  return label;
+}
+
+// Move a todo to another place, rejected if it would go under one of its own subtasks
+async function moveTodo(id: string, placement: TodoPlacement) {
+  try {
+    await window.electronAPI.moveTodo(id, placement);
+    await loadTodos();
+  } catch (error) {
+    console.error('Failed to move todo:', error);
+    alert(getErrorMessage(error));
+  }
+}
+
+// Whether a drop over a todo item lands after the todo rather than before it
+function isDropAfter(li: HTMLLIElement, event: DragEvent): boolean {
+  const rect = li.getBoundingClientRect();
+  return event.clientY > rect.top + rect.height / 2;
+}
+
+// Let a todo be dragged, and other todos be dropped before or after it, among its siblings
+function setupTodoDragAndDrop(li: HTMLLIElement, todo: Todo) {
+  li.draggable = true;
+  
+  li.addEventListener('dragstart', event => {
+    if (editingTodoId) {
+      event.preventDefault();
+      return;
+    }
+    draggedTodoId = todo.id;
+    event.dataTransfer?.setData('text/plain', todo.id);
+    li.classList.add('dragging');
+  });
+  
+  li.addEventListener('dragend', () => {
+    draggedTodoId = null;
+    li.classList.remove('dragging');
+  });
+  
+  li.addEventListener('dragover', event => {
+    if (!draggedTodoId || draggedTodoId === todo.id) return;
+    event.preventDefault();
+    const after = isDropAfter(li, event);
+    li.classList.toggle('drop-before', !after);
+    li.classList.toggle('drop-after', after);
+  });
+  
+  li.addEventListener('dragleave', () => li.classList.remove('drop-before', 'drop-after'));
+  
+  li.addEventListener('drop', event => {
+    event.preventDefault();
+    li.classList.remove('drop-before', 'drop-after');
+    const id = draggedTodoId;
+    if (!id || id === todo.id) return;
+    
+    const parentId = todo.parent_id ?? null;
+    let before: string | null = todo.id;
+    if (isDropAfter(li, event)) {
+      // The next sibling shown, the todo goes last if there is none
+      const index = shownTodos.findIndex(shown => shown.id === todo.id);
+      before = shownTodos.slice(index + 1)
+        .find(shown => (shown.parent_id ?? null) === parentId && shown.id !== id)?.id ?? null;
+    }
+    moveTodo(id, { parent_id: parentId, before });
+  });
+}
+
+// Render todos to the DOM as a tree, subtasks under their parent
+// Todos whose parent isn't shown (filtered out, or in the trash) are shown at the top level
+function renderTodos(todos: Todo[]) {
+  todoList.innerHTML = '';
+  shownTodos = todos;
+  
+  const shown = new Set(todos.map(todo => todo.id));
+  const subtasks = new Map<string, Todo[]>();
+  todos.forEach(todo => {
+    if (todo.parent_id && shown.has(todo.parent_id)) {
+      subtasks.set(todo.parent_id, [...(subtasks.get(todo.parent_id) ?? []), todo]);
+    }
+  });
+  
+  const rendered = new Set<string>();
+  const renderTree = (todo: Todo, depth: number) => {
+    if (rendered.has(todo.id)) return;
+    rendered.add(todo.id);
+    
+    const children = subtasks.get(todo.id) ?? [];
+    todoList.appendChild(createTodoItem(todo, depth, children.length > 0));
+    if (!collapsedTodos.has(todo.id)) {
+      children.forEach(child => renderTree(child, depth + 1));
+    }
+  };
+  
+  todos.filter(todo => !todo.parent_id || !shown.has(todo.parent_id)).forEach(todo => renderTree(todo, 0));
+  
+  // Todos left are subtasks of each other, until the sync breaks the cycle
+  todos.filter(todo => !rendered.has(todo.id)).forEach(todo => renderTree(todo, 0));
+}
+
+// Create the list item of a todo
+function createTodoItem(todo: Todo, depth: number, hasSubtasks: boolean): HTMLLIElement {
+  const li = document.createElement('li');
+  li.className = `todo-item ${todo.completed ? 'completed' : ''}`;
+  li.style.marginLeft = `${depth * 1.5}rem`;
+  
+  const checkbox = document.createElement('input');
+  checkbox.type = 'checkbox';
+  checkbox.className = 'todo-checkbox';
+  checkbox.checked = Boolean(todo.completed);
+  checkbox.addEventListener('change', () => toggleTodo(todo.id, checkbox.checked));
+  
+  const span = document.createElement('span');
+  span.className = 'todo-text';
+  span.textContent = todo.title;
+  span.title = 'Double-click to edit';
+  span.addEventListener('dblclick', () => startEditing(todo, span));
+  
+  const dueLabel = createDueLabel(todo);
+  dueLabel.addEventListener('click', () => startEditingDue(todo, dueLabel));
+  
+  const badge = createSyncBadge(todo.sync_state ?? 'synced', todo.sync_error);
+  
+  const deleteBtn = document.createElement('button');
+  deleteBtn.className = 'delete-button';
+  deleteBtn.textContent = 'Delete';
+  deleteBtn.addEventListener('click', () => confirmDeleteTodo(todo));
+  
+  const subtaskBtn = document.createElement('button');
+  subtaskBtn.className = 'subtask-add';
+  subtaskBtn.textContent = '+ Subtask';
+  subtaskBtn.addEventListener('click', () =>
+    startInlineInput(todo, subtaskBtn, 'subtask-edit', 'Subtask', title => addSubtask(todo, title)));
+  
+  li.appendChild(createCollapseToggle(todo, hasSubtasks));
+  li.appendChild(checkbox);
+  li.appendChild(span);
+  const rollup = createSubtaskRollup(todo);
+  if (rollup) li.appendChild(rollup);
+  const statusLabel = createStatusLabel(todo);
+  if (statusLabel) li.appendChild(statusLabel);
+  li.appendChild(createPrioritySelect(todo));
+  const listTag = createListTag(todo);
+  if (listTag) li.appendChild(listTag);
+  li.appendChild(createTodoTags(todo));
+  li.appendChild(dueLabel);
+  li.appendChild(badge);
+  li.appendChild(subtaskBtn);
+  li.appendChild(deleteBtn);
+  setupTodoDragAndDrop(li, todo);
+  
+  return li;
+}
+
+// Render todos to the DOM as a board, a column per status; subtasks get cards of their own
+// Cards go by priority, then in the order of the list
+function renderBoard(todos: Todo[]) {
+  boardElement.innerHTML = '';
+  shownTodos = todos;
+  
+  const rank = (todo: Todo) => PRIORITY_OPTIONS.findIndex(option => option.priority === (todo.priority ?? null));
+  const sorted = [...todos].sort((a, b) => rank(b) - rank(a));
+  
+  STATUS_COLUMNS.forEach(({ label, status }) => {
+    const cards = sorted.filter(todo => todo.status === status);
+    
+    const column = document.createElement('div');
+    column.className = 'board-column';
+    
+    const heading = document.createElement('h2');
+    heading.textContent = `${label} (${cards.length})`;
+    column.appendChild(heading);
+    
+    const list = document.createElement('ul');
+    list.className = 'board-cards';
+    cards.forEach(todo => list.appendChild(createBoardCard(todo)));
+    column.appendChild(list);
+    
+    column.addEventListener('dragover', event => {
+      const dragged = shownTodos.find(todo => todo.id === draggedTodoId);
+      if (!dragged || dragged.status === status) return;
+      event.preventDefault();
+      column.classList.add('drop-target');
+    });
+    
+    column.addEventListener('dragleave', event => {
+      if (!column.contains(event.relatedTarget as Node | null)) {
+        column.classList.remove('drop-target');
+      }
+    });
+    
+    column.addEventListener('drop', event => {
+      event.preventDefault();
+      column.classList.remove('drop-target');
+      if (draggedTodoId) {
+        setStatus(draggedTodoId, status);
+      }
+    });
+    
+    boardElement.appendChild(column);
+  });
+}
+
+// Create the card of a todo on the board, dragged to another column to change its status
+function createBoardCard(todo: Todo): HTMLLIElement {
+  const card = document.createElement('li');
+  card.className = `board-card ${todo.completed ? 'completed' : ''}`;
+  card.draggable = true;
+  
+  card.addEventListener('dragstart', event => {
+    draggedTodoId = todo.id;
+    event.dataTransfer?.setData('text/plain', todo.id);
+    card.classList.add('dragging');
+  });
+  
+  card.addEventListener('dragend', () => {
+    draggedTodoId = null;
+    card.classList.remove('dragging');
+  });
+  
+  const title = document.createElement('span');
+  title.className = 'todo-text';
+  title.textContent = todo.title;
+  card.appendChild(title);
+  
+  const details = document.createElement('div');
+  details.className = 'board-card-details';
+  details.appendChild(createPrioritySelect(todo));
+  const listTag = createListTag(todo);
+  if (listTag) details.appendChild(listTag);
+  if (todo.due_at) {
+    const dueLabel = createDueLabel(todo);
+    dueLabel.addEventListener('click', () => startEditingDue(todo, dueLabel));
+    details.appendChild(dueLabel);
+  }
+  details.appendChild(createSyncBadge(todo.sync_state ?? 'synced', todo.sync_error));
+  card.appendChild(details);
+  
+  return card;
+}
+
 // Add this line at the end to explicitly mark as a module
 export {};
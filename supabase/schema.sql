@@ -17,3 +17,181 @@ CREATE POLICY "Allow all operations for now" ON public.todos
 
 -- Enable logical replication for ElectricSQL
 ALTER TABLE public.todos REPLICA IDENTITY FULL;
+
+-- Client mutation id of the last local change pushed for a row; Electric echoes it back so
+-- the app can tell its own writes apart and confirm them
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS client_mutation_id UUID;
+
+-- Field-level last-writer-wins: field_versions holds the time (ms) of the last write of each
+-- column. An update only changes a column if its version is newer than the stored one; equal
+-- versions go to the larger JSON value, the same rule the app applies locally
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS updated_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS field_versions JSONB NOT NULL DEFAULT '{}'::jsonb;
+
+-- Trashed todos are kept as tombstones until every client has purged them
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP WITH TIME ZONE;
+
+-- Due date and reminder offset (minutes before the due date, NULL for no reminder)
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS remind_before INTEGER CHECK (remind_before >= 0);
+
+CREATE OR REPLACE FUNCTION public.todos_merge_field_versions() RETURNS trigger
+LANGUAGE plpgsql AS $$
+DECLARE
+  old_row JSONB;
+  new_row JSONB := to_jsonb(NEW);
+  merged JSONB;
+  field TEXT;
+  version JSONB;
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    old_row := to_jsonb(OLD);
+    merged := COALESCE(OLD.field_versions, '{}'::jsonb);
+    
+    -- Writers that don't send versions overwrite as before
+    IF NEW.field_versions IS DISTINCT FROM OLD.field_versions THEN
+      FOR field, version IN SELECT key, value FROM jsonb_each(COALESCE(NEW.field_versions, '{}'::jsonb)) LOOP
+        IF merged ? field AND (
+          (merged->>field)::bigint > (version #>> '{}')::bigint OR
+          ((merged->>field)::bigint = (version #>> '{}')::bigint AND
+            (old_row->field)::text COLLATE "C" >= (new_row->field)::text COLLATE "C")
+        ) THEN
+          -- The stored write is newer, keep it
+          new_row := jsonb_set(new_row, ARRAY[field], COALESCE(old_row->field, 'null'::jsonb));
+        ELSE
+          merged := merged || jsonb_build_object(field, version);
+        END IF;
+      END LOOP;
+      NEW := jsonb_populate_record(NEW, new_row);
+    END IF;
+    
+    NEW.field_versions := merged;
+  ELSE
+    NEW.field_versions := COALESCE(NEW.field_versions, '{}'::jsonb);
+  END IF;
+  
+  NEW.updated_at := COALESCE(
+    (SELECT to_timestamp(MAX(value::text::bigint) / 1000.0) FROM jsonb_each(NEW.field_versions)),
+    NEW.updated_at,
+    CURRENT_TIMESTAMP
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS todos_merge_field_versions ON public.todos;
+CREATE TRIGGER todos_merge_field_versions
+  BEFORE INSERT OR UPDATE ON public.todos
+  FOR EACH ROW EXECUTE FUNCTION public.todos_merge_field_versions();
+
+-- Lists todos can be filed under, merged field by field like todos
+CREATE TABLE IF NOT EXISTS public.lists (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  color TEXT,
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  updated_at TIMESTAMP WITH TIME ZONE,
+  field_versions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  client_mutation_id UUID
+);
+
+ALTER TABLE public.lists ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for now" ON public.lists
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE public.lists REPLICA IDENTITY FULL;
+
+DROP TRIGGER IF EXISTS lists_merge_field_versions ON public.lists;
+CREATE TRIGGER lists_merge_field_versions
+  BEFORE INSERT OR UPDATE ON public.lists
+  FOR EACH ROW EXECUTE FUNCTION public.todos_merge_field_versions();
+
+-- List of a todo, NULL for the inbox; deleting a list moves the todos it still has to the inbox
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS list_id UUID REFERENCES public.lists(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS todos_list_id_idx ON public.todos(list_id);
+
+-- Todo a todo is a subtask of, NULL at the top level; purging a todo moves its subtasks to the top level
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS parent_id UUID REFERENCES public.todos(id) ON DELETE SET NULL;
+CREATE INDEX IF NOT EXISTS todos_parent_id_idx ON public.todos(parent_id);
+
+-- Place of a todo among its siblings, a fractional index compared byte by byte; NULL until the
+-- todo is first moved, the app then orders it by creation time, newest first
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS position TEXT COLLATE "C";
+
+-- Workflow status and priority (NULL for none); done todos are the completed ones
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS status TEXT
+  CHECK (status IN ('backlog', 'todo', 'in_progress', 'done'));
+ALTER TABLE public.todos ADD COLUMN IF NOT EXISTS priority TEXT
+  CHECK (priority IN ('low', 'medium', 'high', 'urgent'));
+
+-- Keeps completed and status in step for writers that only know one of them: a status
+-- change sets completed, a completed change alone sets the status to done or back to todo.
+-- The derived column takes the version of the one written. Runs after the field version
+-- merge (triggers fire by name), so it sees the columns that won
+CREATE OR REPLACE FUNCTION public.todos_sync_status() RETURNS trigger
+LANGUAGE plpgsql AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    NEW.status := COALESCE(NEW.status, CASE WHEN NEW.completed THEN 'done' ELSE 'todo' END);
+    NEW.completed := NEW.status = 'done';
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    NEW.completed := NEW.status = 'done';
+    IF NEW.field_versions ? 'status' THEN
+      NEW.field_versions := NEW.field_versions || jsonb_build_object('completed', NEW.field_versions->'status');
+    END IF;
+  ELSIF NEW.completed IS DISTINCT FROM OLD.completed AND NEW.completed IS DISTINCT FROM (NEW.status = 'done') THEN
+    NEW.status := CASE WHEN NEW.completed THEN 'done' ELSE 'todo' END;
+    IF NEW.field_versions ? 'completed' THEN
+      NEW.field_versions := NEW.field_versions || jsonb_build_object('status', NEW.field_versions->'completed');
+    END IF;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS todos_sync_status ON public.todos;
+CREATE TRIGGER todos_sync_status
+  BEFORE INSERT OR UPDATE ON public.todos
+  FOR EACH ROW EXECUTE FUNCTION public.todos_sync_status();
+
+-- Existing todos get the status matching completed. No column default: the trigger has to
+-- see a missing status to take it from completed
+UPDATE public.todos SET status = CASE WHEN completed THEN 'done' ELSE 'todo' END WHERE status IS NULL;
+ALTER TABLE public.todos ALTER COLUMN status SET NOT NULL;
+
+-- Free-form tags; a tag never changes once created, it is only put on and taken off todos
+CREATE TABLE IF NOT EXISTS public.tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  name TEXT NOT NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  client_mutation_id UUID
+);
+
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for now" ON public.tags
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE public.tags REPLICA IDENTITY FULL;
+
+-- Tags of todos, one row per assignment; purging a todo or deleting a tag drops its assignments
+CREATE TABLE IF NOT EXISTS public.todo_tags (
+  todo_id UUID NOT NULL REFERENCES public.todos(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
+  client_mutation_id UUID,
+  PRIMARY KEY (todo_id, tag_id)
+);
+CREATE INDEX IF NOT EXISTS todo_tags_tag_id_idx ON public.todo_tags(tag_id);
+
+ALTER TABLE public.todo_tags ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Allow all operations for now" ON public.todo_tags
+  USING (true)
+  WITH CHECK (true);
+
+ALTER TABLE public.todo_tags REPLICA IDENTITY FULL;